@@ -3,12 +3,19 @@ import mdx from '@astrojs/mdx';
 import react from '@astrojs/react';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
+import contentCheck from './src/lib/contentCheck.ts';
+import remarkContentImages from './src/lib/remarkContentImages.ts';
 
 export default defineConfig({
   site: 'https://skhattak.dev',
-  integrations: [mdx(), react()],
+  integrations: [
+    mdx(),
+    react(),
+    // Feed cards link to Letterboxd and Flickr pages taken from API snapshots.
+    contentCheck({ allowHosts: ['letterboxd.com', 'flickr.com'] }),
+  ],
   markdown: {
-    remarkPlugins: [remarkMath],
+    remarkPlugins: [remarkMath, remarkContentImages],
     rehypePlugins: [rehypeKatex],
     shikiConfig: {
       theme: 'github-dark',
@@ -0,0 +1,50 @@
+import type {
+  ActivityItem,
+  ContentCollection,
+  ContentIndexEntry,
+  FlickrItem,
+  LetterboxdItem,
+} from './types';
+
+export interface ActivitySources {
+  photos: FlickrItem[];
+  watches: LetterboxdItem[];
+  entries: ContentIndexEntry[];
+}
+
+const CONTENT_KINDS: Record<ContentCollection, 'post' | 'project' | 'demo'> = {
+  posts: 'post',
+  projects: 'project',
+  demos: 'demo',
+};
+
+function timeOf(value: string): number {
+  const time = new Date(value).valueOf();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Flattens every source into one newest-first stream. Items without a usable
+ * date (undated projects, photos with no publish time) are left out.
+ */
+export function mergeActivity({ photos, watches, entries }: ActivitySources): ActivityItem[] {
+  const items: ActivityItem[] = [];
+
+  for (const photo of photos) {
+    const date = photo.publishedAt ?? photo.dateTaken;
+    if (date) items.push({ kind: 'photo', id: `photo:${photo.id}`, date, photo });
+  }
+
+  for (const watch of watches) {
+    const date = watch.watchedDate ?? watch.publishedAt;
+    if (date) items.push({ kind: 'watch', id: `watch:${watch.guid ?? watch.link}`, date, watch });
+  }
+
+  for (const entry of entries) {
+    if (!entry.date) continue;
+    const kind = CONTENT_KINDS[entry.collection];
+    items.push({ kind, id: `${kind}:${entry.slug}`, date: entry.date, entry });
+  }
+
+  return items.sort((a, b) => timeOf(b.date) - timeOf(a.date) || a.id.localeCompare(b.id));
+}
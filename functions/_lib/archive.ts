@@ -0,0 +1,269 @@
+import type { KeyValueNamespace } from './cache';
+import { FeedError, type FeedParams } from './feed';
+
+export interface ArchiveEnv {
+  FEED_ARCHIVE?: KeyValueNamespace;
+}
+
+/** Sort key for newest-first ordering; compared element by element. */
+export type ArchiveSortKey = [number, number, string];
+
+export interface ArchiveSchema<T> {
+  id: (item: T) => string;
+  sortKey: (item: T) => ArchiveSortKey;
+}
+
+function compareKeys(a: ArchiveSortKey, b: ArchiveSortKey): number {
+  if (a[0] !== b[0]) return b[0] - a[0];
+  if (a[1] !== b[1]) return b[1] - a[1];
+  return a[2] < b[2] ? 1 : a[2] > b[2] ? -1 : 0;
+}
+
+/**
+ * Merges `incoming` into `existing`, newest first. Incoming items win on id
+ * collisions so edits upstream (a changed rating, a new review) stick.
+ */
+export function mergeArchive<T>(existing: T[], incoming: T[], schema: ArchiveSchema<T>): T[] {
+  const byId = new Map<string, T>();
+  for (const item of existing) byId.set(schema.id(item), item);
+  for (const item of incoming) byId.set(schema.id(item), item);
+  return [...byId.values()].sort((a, b) => compareKeys(schema.sortKey(a), schema.sortKey(b)));
+}
+
+/** Persists every item a feed has ever returned, keyed by a stable id. */
+export interface ArchiveStore<T> {
+  /** Everything archived, newest first. */
+  load(): Promise<T[]>;
+  /** Adds `items`, replacing archived items with the same id. */
+  add(items: T[]): Promise<void>;
+}
+
+export class MemoryArchiveStore<T> implements ArchiveStore<T> {
+  private items: T[] = [];
+
+  constructor(private readonly schema: ArchiveSchema<T>) {}
+
+  async load(): Promise<T[]> {
+    return this.items;
+  }
+
+  async add(items: T[]): Promise<void> {
+    this.items = mergeArchive(this.items, items, this.schema);
+  }
+}
+
+/** `YYYY-MM` of an item's primary sort time, which names its KV bucket. */
+function monthOf(key: ArchiveSortKey): string {
+  return new Date(key[0]).toISOString().slice(0, 7);
+}
+
+const MONTH_SUFFIX = /:\d{4}-\d{2}$/;
+
+/** Upper bound on how long a merged copy that raced a write can stay stale. */
+const MERGED_TTL_SECONDS = 3600;
+
+/**
+ * Stores one KV key per month (`<key>:<YYYY-MM>`), so a write only rewrites
+ * the months it touches, plus a merged copy (`<key>:merged`) so reads take one
+ * KV get instead of one per month. Writes drop the merged copy and the next
+ * read rebuilds it. Two overlapping writes can still race within a month, but
+ * only over items both saw in the feed, and the loser's items are re-added by
+ * the next fetch while they remain in the upstream window.
+ */
+export class KvArchiveStore<T> implements ArchiveStore<T> {
+  private readonly mergedKey: string;
+
+  constructor(
+    private readonly namespace: KeyValueNamespace,
+    private readonly key: string,
+    private readonly schema: ArchiveSchema<T>,
+  ) {
+    this.mergedKey = `${key}:merged`;
+  }
+
+  private async readMonth(name: string): Promise<T[]> {
+    const value = await this.namespace.get(name, 'json');
+    return Array.isArray(value) ? (value as T[]) : [];
+  }
+
+  private async readAllMonths(): Promise<T[]> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.namespace.list({ prefix: `${this.key}:`, cursor });
+      names.push(...page.keys.map(entry => entry.name).filter(name => MONTH_SUFFIX.test(name)));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    // Archives written before the per-month layout kept everything under the bare key.
+    const months = await Promise.all([this.key, ...names].map(name => this.readMonth(name)));
+    return mergeArchive([], months.flat(), this.schema);
+  }
+
+  private async readMerged(): Promise<T[] | null> {
+    const value = await this.namespace.get(this.mergedKey, 'json');
+    return Array.isArray(value) ? (value as T[]) : null;
+  }
+
+  async load(): Promise<T[]> {
+    const merged = await this.readMerged();
+    if (merged) return merged;
+
+    const items = await this.readAllMonths();
+    await this.namespace.put(this.mergedKey, JSON.stringify(items), {
+      expirationTtl: MERGED_TTL_SECONDS,
+    });
+    return items;
+  }
+
+  /**
+   * Writes each new or changed item to the month of its sort key and removes
+   * it from the month it was archived under before, when a changed watch date
+   * moved it. A refresh that changes nothing leaves the merged copy in place.
+   */
+  async add(items: T[]): Promise<void> {
+    const archived = (await this.readMerged()) ?? (await this.readAllMonths());
+    const archivedById = new Map(archived.map(item => [this.schema.id(item), item]));
+    const changes = new Map<string, { incoming: T[]; moved: Set<string> }>();
+    const changesFor = (month: string) => {
+      let change = changes.get(month);
+      if (!change) {
+        change = { incoming: [], moved: new Set() };
+        changes.set(month, change);
+      }
+      return change;
+    };
+
+    for (const item of items) {
+      const id = this.schema.id(item);
+      const previous = archivedById.get(id);
+      if (previous && JSON.stringify(previous) === JSON.stringify(item)) continue;
+      const month = monthOf(this.schema.sortKey(item));
+      changesFor(month).incoming.push(item);
+      const previousMonth = previous && monthOf(this.schema.sortKey(previous));
+      if (previousMonth && previousMonth !== month) changesFor(previousMonth).moved.add(id);
+    }
+    if (changes.size === 0) return;
+
+    await Promise.all(
+      [...changes].map(async ([month, { incoming, moved }]) => {
+        const name = `${this.key}:${month}`;
+        const stored = await this.readMonth(name);
+        const kept = stored.filter(item => !moved.has(this.schema.id(item)));
+        if (incoming.length === 0 && kept.length === stored.length) return;
+        await this.namespace.put(name, JSON.stringify(mergeArchive(kept, incoming, this.schema)));
+      }),
+    );
+    await this.namespace.delete(this.mergedKey);
+  }
+}
+
+const memoryArchives = new Map<string, MemoryArchiveStore<unknown>>();
+
+export function archiveStoreFor<T>(
+  env: ArchiveEnv | undefined,
+  key: string,
+  schema: ArchiveSchema<T>,
+): ArchiveStore<T> {
+  if (env?.FEED_ARCHIVE) return new KvArchiveStore<T>(env.FEED_ARCHIVE, key, schema);
+  let store = memoryArchives.get(key);
+  if (!store) {
+    store = new MemoryArchiveStore(schema as ArchiveSchema<unknown>);
+    memoryArchives.set(key, store);
+  }
+  return store as ArchiveStore<T>;
+}
+
+export function clearMemoryArchives(): void {
+  memoryArchives.clear();
+}
+
+function encodeCursor(key: ArchiveSortKey): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(key));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): ArchiveSortKey {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const json = new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+    const key = JSON.parse(json) as unknown;
+    if (
+      Array.isArray(key) &&
+      key.length === 3 &&
+      typeof key[0] === 'number' &&
+      typeof key[1] === 'number' &&
+      typeof key[2] === 'string'
+    ) {
+      return key as ArchiveSortKey;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new FeedError('invalid_parameter', '`cursor` is not a valid page cursor.', 400);
+}
+
+export interface ArchivePageParams {
+  cursor: string | null;
+  limit: number;
+  offset: number;
+  /** Exclusive bounds, as epoch milliseconds, on the first sort key element. */
+  before: number | null;
+  after: number | null;
+}
+
+function parseDateParam(url: URL, name: string): number | null {
+  const raw = url.searchParams.get(name);
+  if (!raw) return null;
+  const time = new Date(raw).valueOf();
+  if (Number.isNaN(time)) {
+    throw new FeedError('invalid_parameter', `\`${name}\` must be an ISO 8601 date.`, 400);
+  }
+  return time;
+}
+
+/**
+ * Adds the archive's `cursor`, `before` and `after` parameters to the common
+ * feed parameters. `since` is treated as an inclusive `after`.
+ */
+export function parseArchivePageParams(url: URL, params: FeedParams): ArchivePageParams {
+  const after = parseDateParam(url, 'after');
+  return {
+    cursor: url.searchParams.get('cursor'),
+    limit: params.limit,
+    offset: params.offset,
+    before: parseDateParam(url, 'before'),
+    after: after ?? (params.since ? params.since.valueOf() - 1 : null),
+  };
+}
+
+export interface ArchivePage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export function paginateArchive<T>(
+  items: T[],
+  params: ArchivePageParams,
+  schema: ArchiveSchema<T>,
+): ArchivePage<T> {
+  const cursorKey = params.cursor ? decodeCursor(params.cursor) : null;
+  const matching = items.filter(item => {
+    const key = schema.sortKey(item);
+    if (cursorKey && compareKeys(key, cursorKey) <= 0) return false;
+    if (params.before !== null && !(key[0] < params.before)) return false;
+    if (params.after !== null && !(key[0] > params.after)) return false;
+    return true;
+  });
+
+  const end = params.offset + params.limit;
+  const page = matching.slice(params.offset, end);
+  const last = page[page.length - 1];
+  return {
+    items: page,
+    nextCursor: matching.length > end && last ? encodeCursor(schema.sortKey(last)) : null,
+  };
+}
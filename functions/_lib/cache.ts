@@ -0,0 +1,156 @@
+/**
+ * Minimal shape of a Workers KV namespace. Declared here rather than pulled
+ * from workers-types so the functions keep type-checking without it.
+ */
+export interface KeyValueNamespace {
+  get(key: string, type: 'json'): Promise<unknown>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: { prefix: string; cursor?: string }): Promise<{
+    keys: { name: string }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+export interface FeedCacheEnv {
+  FEED_CACHE?: KeyValueNamespace;
+}
+
+export interface CacheEntry<T> {
+  storedAt: number;
+  payload: T;
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  put<T>(key: string, entry: CacheEntry<T>, retainSeconds: number): Promise<void>;
+}
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE';
+
+export interface CachedResult<T> {
+  payload: T;
+  status: CacheStatus;
+  ageSeconds: number;
+}
+
+export interface CachedLoadOptions<T> {
+  store: CacheStore;
+  key: string;
+  load: () => Promise<T>;
+  /** How long an entry is served without touching upstream. */
+  ttlSeconds: number;
+  /** Past the TTL, serve the old entry and refresh it in the background. */
+  staleWhileRevalidateSeconds: number;
+  /** Past that, an old entry is still better than an error if upstream fails. */
+  staleIfErrorSeconds: number;
+  waitUntil?: (promise: Promise<unknown>) => void;
+  now?: () => number;
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, { entry: CacheEntry<unknown>; expiresAt: number }>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const stored = this.entries.get(key);
+    if (!stored) return null;
+    if (stored.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return stored.entry as CacheEntry<T>;
+  }
+
+  async put<T>(key: string, entry: CacheEntry<T>, retainSeconds: number): Promise<void> {
+    this.entries.set(key, { entry, expiresAt: this.now() + retainSeconds * 1000 });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export class KvCacheStore implements CacheStore {
+  constructor(private readonly namespace: KeyValueNamespace) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const value = await this.namespace.get(key, 'json');
+    if (!value || typeof value !== 'object') return null;
+    const entry = value as Partial<CacheEntry<T>>;
+    if (typeof entry.storedAt !== 'number' || entry.payload === undefined) return null;
+    return entry as CacheEntry<T>;
+  }
+
+  async put<T>(key: string, entry: CacheEntry<T>, retainSeconds: number): Promise<void> {
+    // KV rejects expirations shorter than a minute.
+    await this.namespace.put(key, JSON.stringify(entry), {
+      expirationTtl: Math.max(60, Math.ceil(retainSeconds)),
+    });
+  }
+}
+
+// Per-isolate fallback for local dev and deployments without a KV binding.
+export const memoryCacheStore = new MemoryCacheStore();
+
+export function cacheStoreFor(env: FeedCacheEnv | undefined): CacheStore {
+  return env?.FEED_CACHE ? new KvCacheStore(env.FEED_CACHE) : memoryCacheStore;
+}
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+function refresh<T>(options: CachedLoadOptions<T>, now: () => number): Promise<T> {
+  const pending = inFlight.get(options.key);
+  if (pending) return pending as Promise<T>;
+
+  const retainSeconds =
+    options.ttlSeconds + Math.max(options.staleWhileRevalidateSeconds, options.staleIfErrorSeconds);
+
+  const promise = options
+    .load()
+    .then(async payload => {
+      await options.store.put(options.key, { storedAt: now(), payload }, retainSeconds);
+      return payload;
+    })
+    .finally(() => {
+      inFlight.delete(options.key);
+    });
+
+  inFlight.set(options.key, promise);
+  return promise;
+}
+
+export async function cachedLoad<T>(options: CachedLoadOptions<T>): Promise<CachedResult<T>> {
+  const now = options.now ?? Date.now;
+  const entry = await options.store.get<T>(options.key);
+  const ageSeconds = entry ? Math.max(0, Math.floor((now() - entry.storedAt) / 1000)) : 0;
+
+  if (entry && ageSeconds < options.ttlSeconds) {
+    return { payload: entry.payload, status: 'HIT', ageSeconds };
+  }
+
+  if (entry && ageSeconds < options.ttlSeconds + options.staleWhileRevalidateSeconds) {
+    const revalidation = refresh(options, now).catch(() => undefined);
+    options.waitUntil?.(revalidation);
+    return { payload: entry.payload, status: 'STALE', ageSeconds };
+  }
+
+  try {
+    const payload = await refresh(options, now);
+    return { payload, status: 'MISS', ageSeconds: 0 };
+  } catch (error) {
+    if (entry && ageSeconds < options.ttlSeconds + options.staleIfErrorSeconds) {
+      return { payload: entry.payload, status: 'STALE', ageSeconds };
+    }
+    throw error;
+  }
+}
+
+export function cacheHeaders(result: CachedResult<unknown>): Record<string, string> {
+  return {
+    'X-Cache': result.status,
+    Age: String(result.ageSeconds),
+  };
+}
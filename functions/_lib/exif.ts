@@ -0,0 +1,113 @@
+import { cachedLoad, type CacheStore } from './cache';
+import { UpstreamError } from './feed';
+import type { FlickrExif } from './types';
+
+const REST_URL = 'https://api.flickr.com/services/rest/';
+const YEAR_SECONDS = 365 * 24 * 3600;
+
+interface FlickrExifTagRaw {
+  tag?: string;
+  label?: string;
+  raw?: { _content?: string };
+  clean?: { _content?: string };
+}
+
+interface FlickrExifResponseRaw {
+  stat?: 'ok' | 'fail';
+  code?: number;
+  message?: string;
+  photo?: {
+    id?: string;
+    camera?: string;
+    exif?: FlickrExifTagRaw[];
+  };
+}
+
+function tagValue(tags: FlickrExifTagRaw[], ...names: string[]): string | null {
+  for (const name of names) {
+    const tag = tags.find(candidate => candidate.tag === name);
+    const value = (tag?.clean?._content ?? tag?.raw?._content)?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+export function parseFlickrExif(response: FlickrExifResponseRaw): FlickrExif | null {
+  const photo = response.photo;
+  if (response.stat !== 'ok' || !photo) return null;
+  const tags = photo.exif ?? [];
+
+  const exif: FlickrExif = {
+    camera: photo.camera?.trim() || tagValue(tags, 'Model'),
+    lens: tagValue(tags, 'LensModel', 'Lens', 'LensInfo'),
+    focalLength: tagValue(tags, 'FocalLength'),
+    exposure: tagValue(tags, 'ExposureTime'),
+    iso: tagValue(tags, 'ISO'),
+    aperture: tagValue(tags, 'FNumber'),
+  };
+  return Object.values(exif).some(Boolean) ? exif : null;
+}
+
+async function fetchFlickrExif(
+  apiKey: string,
+  photoId: string,
+  signal?: AbortSignal,
+): Promise<FlickrExif | null> {
+  const url = new URL(REST_URL);
+  url.search = new URLSearchParams({
+    method: 'flickr.photos.getExif',
+    api_key: apiKey,
+    photo_id: photoId,
+    format: 'json',
+    nojsoncallback: '1',
+  }).toString();
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      'User-Agent': 'skhattak.dev flickr exif',
+    },
+    signal,
+  });
+  if (!response.ok) {
+    throw new UpstreamError('Failed to fetch Flickr EXIF.', response.status);
+  }
+
+  let body: FlickrExifResponseRaw;
+  try {
+    body = (await response.json()) as FlickrExifResponseRaw;
+  } catch {
+    throw new UpstreamError('Invalid Flickr EXIF response.', undefined, 'upstream_invalid');
+  }
+
+  // "Permission denied" and "photo not found" are permanent; anything else
+  // (rate limits, outages) should be retried on the next load.
+  if (body.stat === 'fail' && body.code !== 1 && body.code !== 2) {
+    throw new UpstreamError(body.message ?? 'Flickr EXIF request failed.');
+  }
+  return parseFlickrExif(body);
+}
+
+/**
+ * EXIF for one photo. It never changes, so results (including "no EXIF") are
+ * cached for a year; transient failures resolve to null without being cached.
+ */
+export async function loadFlickrExif(
+  store: CacheStore,
+  apiKey: string,
+  photoId: string,
+  signal?: AbortSignal,
+): Promise<FlickrExif | null> {
+  try {
+    const result = await cachedLoad({
+      store,
+      key: `flickr:exif:${photoId}`,
+      load: () => fetchFlickrExif(apiKey, photoId, signal),
+      ttlSeconds: YEAR_SECONDS,
+      staleWhileRevalidateSeconds: 0,
+      staleIfErrorSeconds: 0,
+    });
+    return result.payload;
+  } catch {
+    return null;
+  }
+}
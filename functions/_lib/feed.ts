@@ -0,0 +1,200 @@
+import {
+  cacheHeaders,
+  cachedLoad,
+  cacheStoreFor,
+  type CachedResult,
+  type FeedCacheEnv,
+} from './cache';
+import type { FeedErrorBody, FeedErrorCode, FeedResponse } from './types';
+
+export class FeedError extends Error {
+  constructor(
+    readonly code: FeedErrorCode,
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'FeedError';
+  }
+}
+
+/**
+ * Thrown by feed loaders when the upstream service misbehaves. The message is
+ * safe to return to clients.
+ */
+export class UpstreamError extends FeedError {
+  constructor(
+    message: string,
+    readonly upstreamStatus?: number,
+    code: FeedErrorCode = 'upstream_unavailable',
+  ) {
+    super(code, message, 502);
+    this.name = 'UpstreamError';
+  }
+}
+
+export interface FeedParams {
+  limit: number;
+  offset: number;
+  since: Date | null;
+}
+
+export interface FeedParamLimits {
+  defaultLimit: number;
+  maxLimit: number;
+}
+
+function parseInteger(raw: string, name: string): number {
+  const value = Number(raw);
+  if (!Number.isInteger(value)) {
+    throw new FeedError('invalid_parameter', `\`${name}\` must be an integer.`, 400);
+  }
+  return value;
+}
+
+export function parseFeedParams(url: URL, limits: FeedParamLimits): FeedParams {
+  const limitRaw = url.searchParams.get('limit');
+  const offsetRaw = url.searchParams.get('offset');
+  const sinceRaw = url.searchParams.get('since');
+
+  const limit = limitRaw
+    ? Math.max(1, Math.min(parseInteger(limitRaw, 'limit'), limits.maxLimit))
+    : limits.defaultLimit;
+
+  const offset = offsetRaw ? parseInteger(offsetRaw, 'offset') : 0;
+  if (offset < 0) {
+    throw new FeedError('invalid_parameter', '`offset` must not be negative.', 400);
+  }
+
+  let since: Date | null = null;
+  if (sinceRaw) {
+    since = new Date(sinceRaw);
+    if (Number.isNaN(since.valueOf())) {
+      throw new FeedError('invalid_parameter', '`since` must be an ISO 8601 date.', 400);
+    }
+  }
+
+  return { limit, offset, since };
+}
+
+export type CachePolicy =
+  | { kind: 'no-store' }
+  | { kind: 'public'; maxAge: number; sMaxAge: number; staleWhileRevalidate: number };
+
+export function cacheControlHeaders(policy: CachePolicy): Record<string, string> {
+  if (policy.kind === 'no-store') {
+    return {
+      'Cache-Control': 'no-store, no-cache, must-revalidate',
+      Pragma: 'no-cache',
+      Expires: '0',
+    };
+  }
+  return {
+    'Cache-Control': `public, max-age=${policy.maxAge}, s-maxage=${policy.sMaxAge}, stale-while-revalidate=${policy.staleWhileRevalidate}`,
+  };
+}
+
+export function jsonResponse(
+  body: unknown,
+  init: { status?: number; headers?: Record<string, string> } = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status: init.status ?? 200,
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      ...init.headers,
+    },
+  });
+}
+
+export function errorResponse(error: unknown, fallbackMessage = 'Something went wrong.'): Response {
+  const feedError =
+    error instanceof FeedError
+      ? error
+      : new FeedError('internal_error', fallbackMessage, 500);
+  const body: FeedErrorBody = {
+    error: { code: feedError.code, message: feedError.message },
+  };
+  return jsonResponse(body, {
+    status: feedError.status,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+export interface FeedHandlerConfig<TItem, TProfile, TEnv extends FeedCacheEnv> {
+  cacheKey: string;
+  load: (env: TEnv) => Promise<FeedResponse<TItem, TProfile>>;
+  limits: FeedParamLimits;
+  cache: {
+    ttlSeconds: number;
+    staleWhileRevalidateSeconds: number;
+    staleIfErrorSeconds: number;
+  };
+  cacheControl: CachePolicy;
+  /** Date used for `since` filtering; items without one are always kept. */
+  itemDate: (item: TItem) => string | null;
+  /** Endpoint-specific filter built from the query; may throw a FeedError. */
+  parseFilter?: (url: URL) => ((item: TItem) => boolean) | null;
+  errorMessage: string;
+}
+
+export function applyFeedParams<TItem>(
+  items: TItem[],
+  params: FeedParams,
+  itemDate: (item: TItem) => string | null,
+): TItem[] {
+  const since = params.since?.valueOf();
+  const filtered =
+    since === undefined
+      ? items
+      : items.filter(item => {
+          const raw = itemDate(item);
+          if (!raw) return true;
+          const time = new Date(raw).valueOf();
+          return Number.isNaN(time) || time >= since;
+        });
+  return filtered.slice(params.offset, params.offset + params.limit);
+}
+
+export function createFeedHandler<TItem, TProfile, TEnv extends FeedCacheEnv = FeedCacheEnv>(
+  config: FeedHandlerConfig<TItem, TProfile, TEnv>,
+): PagesFunction<TEnv> {
+  return async ({ request, env, waitUntil }) => {
+    let params: FeedParams;
+    let filter: ((item: TItem) => boolean) | null = null;
+    let result: CachedResult<FeedResponse<TItem, TProfile>>;
+    try {
+      const url = new URL(request.url);
+      params = parseFeedParams(url, config.limits);
+      filter = config.parseFilter?.(url) ?? null;
+      result = await cachedLoad({
+        store: cacheStoreFor(env),
+        key: config.cacheKey,
+        load: () => config.load(env),
+        ...config.cache,
+        waitUntil,
+      });
+    } catch (error) {
+      return errorResponse(error, config.errorMessage);
+    }
+
+    const feed = result.payload;
+    const body: FeedResponse<TItem, TProfile> = {
+      profile: feed.profile,
+      updatedAt: feed.updatedAt,
+      items: applyFeedParams(
+        filter ? feed.items.filter(filter) : feed.items,
+        params,
+        config.itemDate,
+      ),
+    };
+    if (feed.warnings) body.warnings = feed.warnings;
+
+    return jsonResponse(body, {
+      headers: {
+        ...cacheControlHeaders(config.cacheControl),
+        ...cacheHeaders(result),
+      },
+    });
+  };
+}
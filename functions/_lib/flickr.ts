@@ -0,0 +1,156 @@
+import { cacheStoreFor, type FeedCacheEnv } from './cache';
+import { loadFlickrExif } from './exif';
+import { UpstreamError } from './feed';
+import type { FlickrItem, FlickrOrientation, FlickrResponse } from './types';
+
+interface FlickrFeedItemRaw {
+  title?: string;
+  link?: string;
+  media?: {
+    m?: string;
+  };
+  description?: string;
+  published?: string;
+  date_taken?: string;
+  tags?: string;
+}
+
+interface FlickrFeedRaw {
+  title?: string;
+  link?: string;
+  modified?: string;
+  items?: FlickrFeedItemRaw[];
+}
+
+function parseTags(tagsRaw: string | undefined): string[] {
+  if (!tagsRaw) return [];
+  return tagsRaw
+    .split(/\s+/)
+    .map(tag => tag.trim())
+    .filter(Boolean);
+}
+
+function parseDimensionsFromDescription(
+  description: string | undefined,
+): { width: number | null; height: number | null } {
+  if (!description) return { width: null, height: null };
+
+  const directMatch = description.match(/<img[^>]*\bwidth="(\d+)"[^>]*\bheight="(\d+)"/i);
+  if (directMatch) {
+    return {
+      width: Number.parseInt(directMatch[1], 10),
+      height: Number.parseInt(directMatch[2], 10),
+    };
+  }
+
+  const reverseMatch = description.match(/<img[^>]*\bheight="(\d+)"[^>]*\bwidth="(\d+)"/i);
+  if (reverseMatch) {
+    return {
+      width: Number.parseInt(reverseMatch[2], 10),
+      height: Number.parseInt(reverseMatch[1], 10),
+    };
+  }
+
+  return { width: null, height: null };
+}
+
+function parsePhotoId(link: string): string {
+  const match = link.match(/\/photos\/[^/]+\/(\d+)/);
+  return match ? match[1] : link;
+}
+
+function classifyOrientation(
+  width: number | null,
+  height: number | null,
+): FlickrOrientation {
+  if (!width || !height) return 'landscape';
+  if (width > height * 1.05) return 'landscape';
+  if (height > width * 1.05) return 'portrait';
+  return 'square';
+}
+
+const FEED_URL =
+  'https://www.flickr.com/services/feeds/photos_public.gne?id=198040252@N06&lang=en-us&format=json&nojsoncallback=1';
+
+/** Shared by `/api/flickr` and `/api/activity` so both read one cache entry. */
+export const FLICKR_CACHE_KEY = 'flickr:feed';
+
+export const flickrFeedCache = {
+  ttlSeconds: 300,
+  staleWhileRevalidateSeconds: 3600,
+  staleIfErrorSeconds: 7 * 24 * 3600,
+};
+
+export interface FlickrEnv extends FeedCacheEnv {
+  /** Enables EXIF enrichment through the Flickr REST API. */
+  FLICKR_API_KEY?: string;
+}
+
+export async function loadFlickrFeed(
+  env: FlickrEnv,
+  signal?: AbortSignal,
+): Promise<FlickrResponse> {
+  const feedUrl = `${FEED_URL}&_=${Date.now()}`;
+
+  const feedResponse = await fetch(feedUrl, {
+    cache: 'no-store',
+    headers: {
+      'User-Agent': 'skhattak.dev flickr feed',
+    },
+    signal,
+  });
+
+  if (!feedResponse.ok) {
+    throw new UpstreamError('Failed to fetch Flickr feed.', feedResponse.status);
+  }
+
+  let feed: FlickrFeedRaw;
+  try {
+    feed = (await feedResponse.json()) as FlickrFeedRaw;
+  } catch {
+    throw new UpstreamError('Invalid Flickr feed response.', undefined, 'upstream_invalid');
+  }
+
+  const items = (feed.items ?? [])
+    .map<FlickrItem | null>(item => {
+      const mediaUrl = item.media?.m?.trim();
+      const link = item.link?.trim();
+      if (!mediaUrl || !link) return null;
+      const { width, height } = parseDimensionsFromDescription(item.description);
+      const orientation = classifyOrientation(width, height);
+
+      return {
+        id: parsePhotoId(link),
+        title: item.title?.trim() || 'Untitled',
+        link,
+        imageUrl: mediaUrl,
+        publishedAt: item.published ?? null,
+        dateTaken: item.date_taken ?? null,
+        tags: parseTags(item.tags),
+        width,
+        height,
+        orientation,
+        exif: null,
+      };
+    })
+    .filter((item): item is FlickrItem => item !== null);
+
+  const apiKey = env?.FLICKR_API_KEY;
+  if (apiKey) {
+    const store = cacheStoreFor(env);
+    await Promise.all(
+      items.map(async item => {
+        item.exif = await loadFlickrExif(store, apiKey, item.id, signal);
+      }),
+    );
+  }
+
+  return {
+    profile: {
+      title: feed.title ?? 'Flickr photostream',
+      url: feed.link ?? 'https://www.flickr.com/photos/198040252@N06/',
+    },
+    updatedAt: feed.modified ?? new Date().toISOString(),
+    items,
+  };
+}
@@ -0,0 +1,133 @@
+import { decodeEntities, escapeXml, tokenizeXml } from './xml';
+
+const ALLOWED_TAGS = new Set([
+  'p',
+  'br',
+  'i',
+  'em',
+  'b',
+  'strong',
+  'u',
+  's',
+  'del',
+  'sup',
+  'sub',
+  'a',
+  'blockquote',
+  'ul',
+  'ol',
+  'li',
+]);
+
+const VOID_TAGS = new Set(['br', 'img', 'hr', 'meta', 'link', 'input', 'source', 'wbr']);
+const DROP_CONTENT_TAGS = new Set(['script', 'style', 'iframe', 'object', 'template']);
+const BLOCK_TAGS = new Set(['p', 'blockquote', 'ul', 'ol', 'li']);
+
+export interface SanitizedHtml {
+  html: string;
+  text: string;
+}
+
+function safeHref(raw: string | undefined): string | null {
+  if (!raw) return null;
+  const href = raw.trim();
+  return /^(https?:|mailto:)/i.test(href) ? href : null;
+}
+
+/**
+ * Reduces untrusted HTML to a small set of formatting tags and also returns a
+ * plain-text rendering with paragraph breaks preserved.
+ */
+export function sanitizeHtml(input: string): SanitizedHtml {
+  const { tokens } = tokenizeXml(input);
+  const open: string[] = [];
+  let html = '';
+  let text = '';
+  let dropDepth = 0;
+
+  const breakText = (separator: string) => {
+    if (text.trim()) text += separator;
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'open') {
+      const name = token.name.toLowerCase();
+      if (DROP_CONTENT_TAGS.has(name)) {
+        if (!token.selfClosing) dropDepth += 1;
+        continue;
+      }
+      if (dropDepth > 0) continue;
+
+      if (name === 'br') {
+        html += '<br>';
+        text += '\n';
+        continue;
+      }
+      if (BLOCK_TAGS.has(name)) breakText('\n\n');
+      if (!ALLOWED_TAGS.has(name) || VOID_TAGS.has(name)) continue;
+
+      if (name === 'a') {
+        const href = safeHref(token.attributes.href);
+        html += href
+          ? `<a href="${escapeXml(href)}" rel="noopener noreferrer" target="_blank">`
+          : '<a>';
+      } else {
+        html += `<${name}>`;
+      }
+      if (token.selfClosing) {
+        html += `</${name}>`;
+      } else {
+        open.push(name);
+      }
+      continue;
+    }
+
+    if (token.type === 'close') {
+      const name = token.name.toLowerCase();
+      if (DROP_CONTENT_TAGS.has(name)) {
+        dropDepth = Math.max(0, dropDepth - 1);
+        continue;
+      }
+      if (dropDepth > 0) continue;
+      const index = open.lastIndexOf(name);
+      if (index === -1) continue;
+      // Close anything left open inside this element so the output nests.
+      while (open.length > index) {
+        html += `</${open.pop()}>`;
+      }
+      continue;
+    }
+
+    if (dropDepth > 0) continue;
+    html += escapeXml(token.value);
+    text += token.value;
+  }
+
+  while (open.length > 0) {
+    html += `</${open.pop()}>`;
+  }
+
+  return {
+    html: html.replace(/<p>\s*<\/p>/g, '').trim(),
+    text: text
+      .replace(/\u00a0/g, ' ')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n[ \t]+/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+  };
+}
+
+/**
+ * Visible text of an HTML fragment on one line. Elements named in
+ * `dropContent` are removed along with what they contain; other tags become
+ * spaces and entities are decoded.
+ */
+export function htmlToText(html: string, dropContent: string[] = []): string {
+  const kept = dropContent.length
+    ? html.replace(new RegExp(`<(${dropContent.join('|')})\\b[\\s\\S]*?<\\/\\1>`, 'gi'), ' ')
+    : html;
+  return decodeEntities(kept.replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
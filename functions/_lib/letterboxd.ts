@@ -0,0 +1,201 @@
+import {
+  archiveStoreFor,
+  mergeArchive,
+  type ArchiveEnv,
+  type ArchiveSchema,
+} from './archive';
+import { cachedLoad, cacheStoreFor, type CachedResult, type FeedCacheEnv } from './cache';
+import { UpstreamError } from './feed';
+import { sanitizeHtml } from './html';
+import { RssItemReader, type RssItemFields } from './rss';
+import type { LetterboxdItem, LetterboxdResponse } from './types';
+import { tokenizeXml, tokenizeXmlStream, XmlTokenizer, type XmlToken } from './xml';
+
+const PROFILE_URL = 'https://letterboxd.com/xiphosen/';
+const SPOILER_NOTICE = /<p>\s*<em>\s*This review may contain spoilers\.[\s\S]*?<\/em>\s*<\/p>/i;
+
+export interface LetterboxdParseResult {
+  items: LetterboxdItem[];
+  warnings: string[];
+}
+
+interface ParsedReview {
+  posterUrl: string | null;
+  reviewText: string | null;
+  reviewHtml: string | null;
+  containsSpoilers: boolean;
+}
+
+export function parseReview(descriptionHtml: string, guid: string | null): ParsedReview {
+  const { tokens } = tokenizeXml(descriptionHtml);
+  const poster = tokens.find(token => token.type === 'open' && token.name.toLowerCase() === 'img');
+  const posterUrl = poster?.type === 'open' ? poster.attributes.src?.trim() || null : null;
+
+  if (!guid?.startsWith('letterboxd-review-')) {
+    return { posterUrl, reviewText: null, reviewHtml: null, containsSpoilers: false };
+  }
+
+  const containsSpoilers = SPOILER_NOTICE.test(descriptionHtml);
+  const { html, text } = sanitizeHtml(descriptionHtml.replace(SPOILER_NOTICE, ''));
+  return {
+    posterUrl,
+    reviewText: text || null,
+    reviewHtml: text ? html : null,
+    containsSpoilers,
+  };
+}
+
+function parseNumber(
+  raw: string | undefined,
+  field: string,
+  label: string,
+  warnings: string[],
+): number | null {
+  if (!raw) return null;
+  const value = Number(raw);
+  if (Number.isFinite(value)) return value;
+  warnings.push(`Ignored non-numeric ${field} "${raw}" on "${label}".`);
+  return null;
+}
+
+function toLetterboxdItem(fields: RssItemFields, warnings: string[]): LetterboxdItem | null {
+  const filmTitle = fields['letterboxd:filmTitle'];
+  const label = fields.title || fields.guid || 'untitled item';
+  if (!filmTitle) {
+    warnings.push(`Skipped "${label}": no letterboxd:filmTitle.`);
+    return null;
+  }
+
+  const guid = fields.guid || null;
+  const link = fields.link;
+  if (!link) warnings.push(`"${label}" has no link; using the profile URL.`);
+
+  return {
+    guid,
+    title: fields.title || filmTitle,
+    filmTitle,
+    filmYear: parseNumber(fields['letterboxd:filmYear'], 'filmYear', label, warnings),
+    memberRating: parseNumber(fields['letterboxd:memberRating'], 'memberRating', label, warnings),
+    watchedDate: fields['letterboxd:watchedDate'] || null,
+    publishedAt: fields.pubDate || null,
+    link: link || PROFILE_URL,
+    ...parseReview(fields.description ?? '', guid),
+  };
+}
+
+function createItemCollector(warnings: string[]) {
+  const reader = new RssItemReader();
+  const items: LetterboxdItem[] = [];
+  return {
+    items,
+    push(token: XmlToken) {
+      const fields = reader.push(token);
+      if (!fields) return;
+      const item = toLetterboxdItem(fields, warnings);
+      if (item) items.push(item);
+    },
+  };
+}
+
+export function parseLetterboxdRss(xml: string): LetterboxdParseResult {
+  const { tokens, warnings } = tokenizeXml(xml);
+  const collector = createItemCollector(warnings);
+  tokens.forEach(collector.push);
+  return { items: collector.items, warnings };
+}
+
+async function parseLetterboxdStream(
+  stream: ReadableStream<Uint8Array>,
+): Promise<LetterboxdParseResult> {
+  const tokenizer = new XmlTokenizer();
+  const warnings = tokenizer.warnings;
+  const collector = createItemCollector(warnings);
+  for await (const token of tokenizeXmlStream(stream, tokenizer)) {
+    collector.push(token);
+  }
+  return { items: collector.items, warnings };
+}
+
+export async function fetchLetterboxdFeed(signal?: AbortSignal): Promise<LetterboxdResponse> {
+  const feedResponse = await fetch('https://letterboxd.com/xiphosen/rss/', {
+    headers: {
+      'User-Agent': 'skhattak.dev letterboxd feed',
+    },
+    signal,
+  });
+
+  if (!feedResponse.ok) {
+    throw new UpstreamError('Failed to fetch Letterboxd feed.', feedResponse.status);
+  }
+
+  const { items, warnings } = feedResponse.body
+    ? await parseLetterboxdStream(feedResponse.body)
+    : parseLetterboxdRss(await feedResponse.text());
+
+  return {
+    profile: {
+      handle: 'xiphosen',
+      url: PROFILE_URL,
+    },
+    updatedAt: new Date().toISOString(),
+    items,
+    warnings,
+  };
+}
+
+export type LetterboxdEnv = FeedCacheEnv & ArchiveEnv;
+
+const ARCHIVE_KEY = 'letterboxd:archive';
+
+function timeOf(value: string | null): number {
+  if (!value) return 0;
+  const time = new Date(value).valueOf();
+  return Number.isNaN(time) ? 0 : time;
+}
+
+export const letterboxdArchiveSchema: ArchiveSchema<LetterboxdItem> = {
+  id: item => item.guid ?? item.link,
+  sortKey: item => {
+    const publishedAt = timeOf(item.publishedAt);
+    const watchedAt = timeOf(item.watchedDate) || publishedAt;
+    return [watchedAt, publishedAt, item.guid ?? item.link];
+  },
+};
+
+export interface LetterboxdHistory {
+  feed: CachedResult<LetterboxdResponse>;
+  /** Everything ever seen, newest first, including the current feed window. */
+  items: LetterboxdItem[];
+}
+
+/**
+ * Loads the RSS window through the feed cache and returns it merged with the
+ * archive. Every fresh fetch is written back to the archive, so the history
+ * grows even though the RSS only ever carries the latest entries.
+ */
+export async function loadLetterboxdHistory(
+  env: LetterboxdEnv | undefined,
+  waitUntil?: (promise: Promise<unknown>) => void,
+): Promise<LetterboxdHistory> {
+  const archive = archiveStoreFor(env, ARCHIVE_KEY, letterboxdArchiveSchema);
+
+  const feed = await cachedLoad({
+    store: cacheStoreFor(env),
+    key: 'letterboxd:feed',
+    load: async () => {
+      const response = await fetchLetterboxdFeed();
+      await archive.add(response.items);
+      return response;
+    },
+    ttlSeconds: 900,
+    staleWhileRevalidateSeconds: 86400,
+    staleIfErrorSeconds: 7 * 24 * 3600,
+    waitUntil,
+  });
+
+  const archived = await archive.load();
+  return {
+    feed,
+    items: mergeArchive(archived, feed.payload.items, letterboxdArchiveSchema),
+  };
+}
@@ -0,0 +1,57 @@
+import type { XmlToken } from './xml';
+
+/** Text content of each direct child of an `<item>`, keyed by element name. */
+export type RssItemFields = Record<string, string>;
+
+/**
+ * Consumes tokens one at a time and emits an item's fields as soon as its
+ * closing `</item>` arrives. Repeated child elements keep the first value.
+ */
+export class RssItemReader {
+  private fields: RssItemFields | null = null;
+  private field: string | null = null;
+  private value = '';
+  private depth = 0;
+
+  push(token: XmlToken): RssItemFields | null {
+    if (token.type === 'open') {
+      if (!this.fields) {
+        if (token.name === 'item' && !token.selfClosing) {
+          this.fields = {};
+          this.depth = 0;
+        }
+        return null;
+      }
+      if (token.selfClosing) {
+        if (this.depth === 0 && !(token.name in this.fields)) this.fields[token.name] = '';
+        return null;
+      }
+      this.depth += 1;
+      if (this.depth === 1) {
+        this.field = token.name;
+        this.value = '';
+      }
+      return null;
+    }
+
+    if (!this.fields) return null;
+
+    if (token.type === 'close') {
+      if (this.depth === 0) {
+        if (token.name !== 'item') return null;
+        const fields = this.fields;
+        this.fields = null;
+        return fields;
+      }
+      this.depth -= 1;
+      if (this.depth === 0 && this.field) {
+        if (!(this.field in this.fields)) this.fields[this.field] = this.value.trim();
+        this.field = null;
+      }
+      return null;
+    }
+
+    if (this.depth > 0) this.value += token.value;
+    return null;
+  }
+}
@@ -0,0 +1,74 @@
+import type { CountBucket, LetterboxdItem, LetterboxdStats } from './types';
+
+function watchedMonth(item: LetterboxdItem): string | null {
+  const source = item.watchedDate ?? item.publishedAt;
+  if (!source) return null;
+  if (/^\d{4}-\d{2}/.test(source)) return source.slice(0, 7);
+  const date = new Date(source);
+  if (Number.isNaN(date.valueOf())) return null;
+  return date.toISOString().slice(0, 7);
+}
+
+function nextMonth(month: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return monthIndex === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+}
+
+function sortedBuckets<TKey extends string | number>(counts: Map<TKey, number>): CountBucket<TKey>[] {
+  return [...counts.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, count]) => ({ key, count }));
+}
+
+function increment<TKey>(counts: Map<TKey, number>, key: TKey): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+export function computeLetterboxdStats(items: LetterboxdItem[]): LetterboxdStats {
+  const ratingCounts = new Map<number, number>();
+  for (let rating = 0.5; rating <= 5; rating += 0.5) ratingCounts.set(rating, 0);
+
+  const months = new Map<string, number>();
+  const years = new Map<number, number>();
+  const decades = new Map<number, number>();
+  let ratingTotal = 0;
+  let ratedWatches = 0;
+
+  for (const item of items) {
+    if (item.memberRating != null) {
+      const bucket = Math.min(5, Math.max(0.5, Math.round(item.memberRating * 2) / 2));
+      increment(ratingCounts, bucket);
+      ratingTotal += item.memberRating;
+      ratedWatches += 1;
+    }
+
+    const month = watchedMonth(item);
+    if (month) {
+      increment(months, month);
+      increment(years, Number(month.slice(0, 4)));
+    }
+
+    if (item.filmYear) increment(decades, Math.floor(item.filmYear / 10) * 10);
+  }
+
+  const monthBuckets = sortedBuckets(months);
+  const filledMonths: CountBucket<string>[] = [];
+  if (monthBuckets.length > 0) {
+    const last = monthBuckets[monthBuckets.length - 1].key;
+    for (let month = monthBuckets[0].key; month <= last; month = nextMonth(month)) {
+      filledMonths.push({ key: month, count: months.get(month) ?? 0 });
+    }
+  }
+
+  return {
+    totalWatches: items.length,
+    ratedWatches,
+    averageRating: ratedWatches > 0 ? Math.round((ratingTotal / ratedWatches) * 100) / 100 : null,
+    ratings: sortedBuckets(ratingCounts),
+    watchesByMonth: filledMonths,
+    watchesByYear: sortedBuckets(years),
+    filmDecades: sortedBuckets(decades),
+  };
+}
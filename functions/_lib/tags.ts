@@ -0,0 +1,35 @@
+import { FeedError } from './feed';
+
+export type TagMode = 'any' | 'all';
+
+export interface TagFilter {
+  tags: string[];
+  mode: TagMode;
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+export function parseTagList(raw: string | null): string[] {
+  if (!raw) return [];
+  const tags = raw.split(/[\s,]+/).map(normalizeTag).filter(Boolean);
+  return tags.filter((tag, index) => tags.indexOf(tag) === index);
+}
+
+/** Reads `tags` (comma or space separated) and `tagmode` (`any` or `all`). */
+export function parseTagFilter(url: URL): TagFilter | null {
+  const tags = parseTagList(url.searchParams.get('tags'));
+  const modeRaw = url.searchParams.get('tagmode') ?? 'any';
+  if (modeRaw !== 'any' && modeRaw !== 'all') {
+    throw new FeedError('invalid_parameter', '`tagmode` must be `any` or `all`.', 400);
+  }
+  return tags.length > 0 ? { tags, mode: modeRaw } : null;
+}
+
+export function matchesTags(itemTags: string[], filter: TagFilter): boolean {
+  const normalized = new Set(itemTags.map(normalizeTag));
+  return filter.mode === 'all'
+    ? filter.tags.every(tag => normalized.has(tag))
+    : filter.tags.some(tag => normalized.has(tag));
+}
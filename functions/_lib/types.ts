@@ -0,0 +1,147 @@
+// Shapes returned by the feed functions. The React components import these
+// directly, so keep this file free of runtime code.
+
+export interface FeedResponse<TItem, TProfile> {
+  profile: TProfile;
+  updatedAt: string;
+  items: TItem[];
+  /** Problems the parser recovered from, e.g. upstream items it had to skip. */
+  warnings?: string[];
+  /** Opaque cursor for the next page, on endpoints that paginate an archive. */
+  nextCursor?: string | null;
+}
+
+export type FeedErrorCode =
+  | 'invalid_parameter'
+  | 'upstream_unavailable'
+  | 'upstream_invalid'
+  | 'internal_error';
+
+export interface FeedErrorBody {
+  error: {
+    code: FeedErrorCode;
+    message: string;
+  };
+}
+
+export type FlickrOrientation = 'portrait' | 'landscape' | 'square';
+
+export interface FlickrExif {
+  camera: string | null;
+  lens: string | null;
+  focalLength: string | null;
+  exposure: string | null;
+  iso: string | null;
+  aperture: string | null;
+}
+
+export interface FlickrItem {
+  /** Flickr photo id, taken from the photo page URL. */
+  id: string;
+  title: string;
+  link: string;
+  imageUrl: string;
+  publishedAt: string | null;
+  dateTaken: string | null;
+  tags: string[];
+  width: number | null;
+  height: number | null;
+  orientation: FlickrOrientation;
+  /** Capture metadata; null when EXIF is disabled, hidden or missing. */
+  exif: FlickrExif | null;
+}
+
+export interface FlickrProfile {
+  title: string;
+  url: string;
+}
+
+export type FlickrResponse = FeedResponse<FlickrItem, FlickrProfile>;
+
+export interface LetterboxdItem {
+  /** RSS guid, e.g. `letterboxd-review-123`; the archive dedupes on it. */
+  guid: string | null;
+  title: string;
+  filmTitle: string;
+  filmYear: number | null;
+  memberRating: number | null;
+  watchedDate: string | null;
+  publishedAt: string | null;
+  link: string;
+  posterUrl: string | null;
+  reviewText: string | null;
+  /** The review as sanitized HTML: paragraphs, emphasis and links only. */
+  reviewHtml: string | null;
+  containsSpoilers: boolean;
+}
+
+export interface LetterboxdProfile {
+  handle: string;
+  url: string;
+}
+
+export type LetterboxdResponse = FeedResponse<LetterboxdItem, LetterboxdProfile>;
+
+export interface CountBucket<TKey> {
+  key: TKey;
+  count: number;
+}
+
+export interface LetterboxdStats {
+  totalWatches: number;
+  ratedWatches: number;
+  averageRating: number | null;
+  /** One bucket per half star from 0.5 to 5, including empty ones. */
+  ratings: CountBucket<number>[];
+  /** `YYYY-MM`, oldest first, with empty months filled in. */
+  watchesByMonth: CountBucket<string>[];
+  /** Calendar year, oldest first. */
+  watchesByYear: CountBucket<number>[];
+  /** Decade start year of the film's release, oldest first. */
+  filmDecades: CountBucket<number>[];
+}
+
+export interface LetterboxdStatsResponse {
+  profile: LetterboxdProfile;
+  updatedAt: string;
+  stats: LetterboxdStats;
+}
+
+export type ContentCollection = 'posts' | 'projects' | 'demos';
+
+/** One published entry from `content.config.ts`, as listed in `/content-index.json`. */
+export interface ContentIndexEntry {
+  collection: ContentCollection;
+  slug: string;
+  title: string;
+  subtitle: string | null;
+  /** ISO date; undated projects have `null`. */
+  date: string | null;
+  tags: string[];
+  url: string;
+}
+
+export interface ContentIndex {
+  generatedAt: string;
+  entries: ContentIndexEntry[];
+}
+
+interface ActivityBase {
+  /** Unique across kinds, e.g. `photo:53512345601`. */
+  id: string;
+  date: string;
+}
+
+export type ActivityItem =
+  | (ActivityBase & { kind: 'photo'; photo: FlickrItem })
+  | (ActivityBase & { kind: 'watch'; watch: LetterboxdItem })
+  | (ActivityBase & { kind: 'post' | 'project' | 'demo'; entry: ContentIndexEntry });
+
+export type ActivityKind = ActivityItem['kind'];
+
+export interface ActivityResponse {
+  updatedAt: string;
+  items: ActivityItem[];
+  /** Sources that could not be loaded; the stream is built from the rest. */
+  warnings?: string[];
+}
@@ -0,0 +1,233 @@
+export type XmlToken =
+  | { type: 'open'; name: string; attributes: Record<string, string>; selfClosing: boolean }
+  | { type: 'close'; name: string }
+  | { type: 'text'; value: string }
+  | { type: 'cdata'; value: string };
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  shy: '\u00ad',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  deg: '°',
+  middot: '·',
+  bull: '•',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  sbquo: '‚',
+  ldquo: '“',
+  rdquo: '”',
+  bdquo: '„',
+  laquo: '«',
+  raquo: '»',
+  prime: '′',
+  Prime: '″',
+  times: '×',
+  divide: '÷',
+  frac12: '½',
+  frac14: '¼',
+  frac34: '¾',
+  star: '☆',
+  starf: '★',
+  agrave: 'à',
+  aacute: 'á',
+  acirc: 'â',
+  auml: 'ä',
+  aring: 'å',
+  ccedil: 'ç',
+  egrave: 'è',
+  eacute: 'é',
+  ecirc: 'ê',
+  euml: 'ë',
+  iacute: 'í',
+  iuml: 'ï',
+  ntilde: 'ñ',
+  oacute: 'ó',
+  ocirc: 'ô',
+  ouml: 'ö',
+  oslash: 'ø',
+  uacute: 'ú',
+  uuml: 'ü',
+  szlig: 'ß',
+  Aacute: 'Á',
+  Eacute: 'É',
+  Ouml: 'Ö',
+  Uuml: 'Ü',
+};
+
+/**
+ * Decodes numeric character references plus the XML entities and the HTML
+ * named entities that show up in feed markup. Unknown entities are kept as-is.
+ */
+export function decodeEntities(input: string): string {
+  if (!input.includes('&')) return input;
+  return input.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, ref: string) => {
+    if (ref[0] === '#') {
+      const codePoint =
+        ref[1] === 'x' || ref[1] === 'X'
+          ? Number.parseInt(ref.slice(2), 16)
+          : Number.parseInt(ref.slice(1), 10);
+      if (codePoint === 0 || codePoint > 0x10ffff) return '\uFFFD';
+      return String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[ref] ?? NAMED_ENTITIES[ref.toLowerCase()] ?? entity;
+  });
+}
+
+export function escapeXml(input: string): string {
+  return input
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/** Returns the index just past the `>` closing a tag, skipping quoted values. */
+function findTagEnd(buffer: string, start: number): number {
+  let quote: string | null = null;
+  for (let index = start; index < buffer.length; index += 1) {
+    const char = buffer[index];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return index + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Incremental tokenizer for XML and tag soup. Feed it text with `write` as it
+ * arrives; incomplete constructs are held back until the next chunk. It does
+ * not check nesting, which keeps it usable for the HTML embedded in feeds.
+ */
+export class XmlTokenizer {
+  private buffer = '';
+  readonly warnings: string[] = [];
+
+  write(chunk: string): XmlToken[] {
+    this.buffer += chunk;
+    return this.drain(false);
+  }
+
+  end(): XmlToken[] {
+    const tokens = this.drain(true);
+    if (this.buffer.length > 0) {
+      this.warnings.push(`Unterminated markup at end of input: ${this.buffer.slice(0, 40)}`);
+      tokens.push({ type: 'text', value: decodeEntities(this.buffer) });
+      this.buffer = '';
+    }
+    return tokens;
+  }
+
+  private drain(final: boolean): XmlToken[] {
+    const tokens: XmlToken[] = [];
+    let position = 0;
+    const buffer = this.buffer;
+
+    while (position < buffer.length) {
+      const lt = buffer.indexOf('<', position);
+      if (lt === -1) {
+        // Hold trailing text back in case an entity is split across chunks.
+        if (!final) break;
+        tokens.push({ type: 'text', value: decodeEntities(buffer.slice(position)) });
+        position = buffer.length;
+        break;
+      }
+      if (lt > position) {
+        tokens.push({ type: 'text', value: decodeEntities(buffer.slice(position, lt)) });
+        position = lt;
+      }
+
+      if (buffer.startsWith('<![CDATA[', position)) {
+        const end = buffer.indexOf(']]>', position + 9);
+        if (end === -1) break;
+        tokens.push({ type: 'cdata', value: buffer.slice(position + 9, end) });
+        position = end + 3;
+        continue;
+      }
+
+      if (buffer.startsWith('<!--', position)) {
+        const end = buffer.indexOf('-->', position + 4);
+        if (end === -1) break;
+        position = end + 3;
+        continue;
+      }
+
+      if (buffer.startsWith('<?', position) || buffer.startsWith('<!', position)) {
+        const end = findTagEnd(buffer, position + 2);
+        if (end === -1) break;
+        position = end;
+        continue;
+      }
+
+      const end = findTagEnd(buffer, position + 1);
+      if (end === -1) break;
+      const inner = buffer.slice(position + 1, end - 1).trim();
+      position = end;
+
+      if (inner.startsWith('/')) {
+        tokens.push({ type: 'close', name: inner.slice(1).trim() });
+        continue;
+      }
+
+      const selfClosing = inner.endsWith('/');
+      const body = selfClosing ? inner.slice(0, -1) : inner;
+      const nameMatch = body.match(/^[^\s/>]+/);
+      if (!nameMatch) {
+        this.warnings.push(`Skipped malformed tag: <${inner.slice(0, 40)}>`);
+        continue;
+      }
+      tokens.push({
+        type: 'open',
+        name: nameMatch[0],
+        attributes: parseAttributes(body.slice(nameMatch[0].length)),
+        selfClosing,
+      });
+    }
+
+    this.buffer = buffer.slice(position);
+    return tokens;
+  }
+}
+
+export function tokenizeXml(input: string): { tokens: XmlToken[]; warnings: string[] } {
+  const tokenizer = new XmlTokenizer();
+  const tokens = [...tokenizer.write(input), ...tokenizer.end()];
+  return { tokens, warnings: tokenizer.warnings };
+}
+
+export async function* tokenizeXmlStream(
+  stream: ReadableStream<Uint8Array>,
+  tokenizer = new XmlTokenizer(),
+): AsyncGenerator<XmlToken> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    yield* tokenizer.write(decoder.decode(value, { stream: true }));
+  }
+  yield* tokenizer.write(decoder.decode());
+  yield* tokenizer.end();
+}
@@ -0,0 +1,82 @@
+import { mergeActivity } from '../_lib/activity';
+import { cachedLoad, cacheStoreFor } from '../_lib/cache';
+import {
+  applyFeedParams,
+  cacheControlHeaders,
+  errorResponse,
+  jsonResponse,
+  parseFeedParams,
+  UpstreamError,
+} from '../_lib/feed';
+import {
+  FLICKR_CACHE_KEY,
+  flickrFeedCache,
+  loadFlickrFeed,
+  type FlickrEnv,
+} from '../_lib/flickr';
+import { loadLetterboxdHistory, type LetterboxdEnv } from '../_lib/letterboxd';
+import type { ActivityResponse, ContentIndex } from '../_lib/types';
+
+interface ActivityEnv extends FlickrEnv, LetterboxdEnv {
+  /** Static asset binding on Pages; used to read the build's content index. */
+  ASSETS?: { fetch: (input: Request | string | URL) => Promise<Response> };
+}
+
+async function loadContentIndex(request: Request, env: ActivityEnv): Promise<ContentIndex> {
+  const url = new URL('/content-index.json', request.url);
+  const response = env.ASSETS ? await env.ASSETS.fetch(url) : await fetch(url);
+  if (!response.ok) {
+    throw new UpstreamError('Failed to load the content index.', response.status);
+  }
+  return (await response.json()) as ContentIndex;
+}
+
+export const onRequestGet: PagesFunction<ActivityEnv> = async ({ request, env, waitUntil }) => {
+  try {
+    const params = parseFeedParams(new URL(request.url), { defaultLimit: 30, maxLimit: 100 });
+
+    const [flickr, letterboxd, content] = await Promise.allSettled([
+      cachedLoad({
+        store: cacheStoreFor(env),
+        key: FLICKR_CACHE_KEY,
+        load: () => loadFlickrFeed(env),
+        ...flickrFeedCache,
+        waitUntil,
+      }),
+      loadLetterboxdHistory(env, waitUntil),
+      loadContentIndex(request, env),
+    ]);
+
+    if ([flickr, letterboxd, content].every(result => result.status === 'rejected')) {
+      throw new UpstreamError('Failed to load any activity source.');
+    }
+
+    const warnings: string[] = [];
+    if (flickr.status === 'rejected') warnings.push('Flickr photos are unavailable.');
+    if (letterboxd.status === 'rejected') warnings.push('Letterboxd watches are unavailable.');
+    if (content.status === 'rejected') warnings.push('Site content is unavailable.');
+
+    const items = mergeActivity({
+      photos: flickr.status === 'fulfilled' ? flickr.value.payload.items : [],
+      watches: letterboxd.status === 'fulfilled' ? letterboxd.value.items : [],
+      entries: content.status === 'fulfilled' ? content.value.entries : [],
+    });
+
+    const body: ActivityResponse = {
+      updatedAt: new Date().toISOString(),
+      items: applyFeedParams(items, params, item => item.date),
+    };
+    if (warnings.length > 0) body.warnings = warnings;
+
+    return jsonResponse(body, {
+      headers: cacheControlHeaders({
+        kind: 'public',
+        maxAge: 300,
+        sMaxAge: 300,
+        staleWhileRevalidate: 3600,
+      }),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load activity.');
+  }
+};
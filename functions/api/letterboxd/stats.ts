@@ -0,0 +1,32 @@
+import { cacheHeaders } from '../../_lib/cache';
+import { cacheControlHeaders, errorResponse, jsonResponse } from '../../_lib/feed';
+import { loadLetterboxdHistory, type LetterboxdEnv } from '../../_lib/letterboxd';
+import { computeLetterboxdStats } from '../../_lib/stats';
+import type { LetterboxdStatsResponse } from '../../_lib/types';
+
+export const onRequestGet: PagesFunction<LetterboxdEnv> = async ({ env, waitUntil }) => {
+  try {
+    const history = await loadLetterboxdHistory(env, waitUntil);
+    const feed = history.feed.payload;
+
+    const body: LetterboxdStatsResponse = {
+      profile: feed.profile,
+      updatedAt: feed.updatedAt,
+      stats: computeLetterboxdStats(history.items),
+    };
+
+    return jsonResponse(body, {
+      headers: {
+        ...cacheControlHeaders({
+          kind: 'public',
+          maxAge: 900,
+          sMaxAge: 3600,
+          staleWhileRevalidate: 86400,
+        }),
+        ...cacheHeaders(history.feed),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to compute Letterboxd stats.');
+  }
+};
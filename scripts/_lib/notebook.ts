@@ -0,0 +1,329 @@
+/**
+ * Converts Jupyter notebooks (nbformat 4) to MDX for the content collections.
+ * Output is static: code becomes fenced blocks, images become sibling files,
+ * and HTML tables (pandas) become GFM tables.
+ */
+
+import { htmlToText } from '../../functions/_lib/html';
+
+type MultilineString = string | string[];
+type MimeBundle = Record<string, MultilineString | undefined>;
+
+export type NotebookOutput =
+  | { output_type: 'stream'; name: 'stdout' | 'stderr'; text: MultilineString }
+  | { output_type: 'execute_result' | 'display_data'; data: MimeBundle }
+  | { output_type: 'error'; ename: string; evalue: string; traceback: string[] };
+
+export interface NotebookCell {
+  cell_type: 'markdown' | 'code' | 'raw';
+  source: MultilineString;
+  metadata?: { tags?: string[] };
+  attachments?: Record<string, MimeBundle>;
+  outputs?: NotebookOutput[];
+}
+
+export interface Notebook {
+  cells: NotebookCell[];
+  metadata?: {
+    kernelspec?: { language?: string };
+    language_info?: { name?: string };
+  };
+  nbformat: number;
+}
+
+export interface NotebookAsset {
+  /** File name relative to the entry directory. */
+  path: string;
+  data: Buffer | string;
+}
+
+export interface ConvertedNotebook {
+  /** Text of a leading `# heading`, which is removed from the body. */
+  title: string | null;
+  body: string;
+  assets: NotebookAsset[];
+  usesCodeTabs: boolean;
+}
+
+export interface ConvertOptions {
+  /** Group runs of consecutive code cells into a `CodeTabs` block. */
+  groupCode: boolean;
+}
+
+const MAX_OUTPUT_LINES = 60;
+const VOID_ELEMENTS = new Set(['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'wbr']);
+const IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+/** `<matplotlib.lines.Line2D at 0x...>` and friends, printed next to the plot they drew. */
+const OBJECT_REPR = /^\[?(?:<[\w.]+(?: object)? at 0x[0-9a-f]+>,?\s*)+\]?$/;
+const ANSI_ESCAPE = /\x1b\[[0-9;]*[A-Za-z]/g;
+const URI_AUTOLINK = /^<([A-Za-z][A-Za-z\d+.-]{1,31}:[^\s<>]*)>$/;
+const EMAIL_AUTOLINK = /^<([\w.!#$%&'*+/=?^`{|}~-]+@[A-Za-z\d](?:[A-Za-z\d-]*[A-Za-z\d])?(?:\.[A-Za-z\d](?:[A-Za-z\d-]*[A-Za-z\d])?)*)>$/;
+const HTML_ATTRIBUTE = /\s+([A-Za-z_:][\w:.-]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const HTML_OPEN_TAG = new RegExp(
+  `^<([A-Za-z][\\w-]*)((?:${HTML_ATTRIBUTE.source})*)\\s*(\\/?)>$`,
+);
+const HTML_CLOSE_TAG = /^<\/[A-Za-z][\w-]*\s*>$/;
+
+/**
+ * Code spans, math, `\begin{...}` environments, HTML comments, HTML tags,
+ * backslash escapes and the bare characters MDX would read as JSX.
+ */
+const MDX_TOKENS = new RegExp(
+  [
+    '(`+)[\\s\\S]*?\\1',
+    '\\$\\$[\\s\\S]+?\\$\\$',
+    '\\$(?=\\S)(?:\\\\.|[^$\\\\\\n])+?(?<=\\S)\\$',
+    '\\\\begin\\{([a-z]+\\*?)\\}[\\s\\S]*?\\\\end\\{\\2\\}',
+    '<!--[\\s\\S]*?-->',
+    '<\\/?[A-Za-z][^<>]*>',
+    '\\\\[\\s\\S]',
+    '[{}<]',
+  ].join('|'),
+  'g',
+);
+
+function joinSource(source: MultilineString | undefined): string {
+  return Array.isArray(source) ? source.join('') : (source ?? '');
+}
+
+function fence(code: string, language = ''): string {
+  const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${code.replace(/\n+$/, '')}\n${marker}`;
+}
+
+function truncate(text: string): string {
+  const lines = text.replace(/\n+$/, '').split('\n');
+  if (lines.length <= MAX_OUTPUT_LINES) return lines.join('\n');
+  const hidden = lines.length - MAX_OUTPUT_LINES;
+  return [...lines.slice(0, MAX_OUTPUT_LINES), `... (${hidden} more lines)`].join('\n');
+}
+
+/** Escapes the characters MDX treats as JSX or expressions in plain text. */
+function escapeText(text: string): string {
+  return text.replace(/[{}]/g, '\\$&').replace(/</g, '&lt;');
+}
+
+/**
+ * An inline HTML token as something MDX can parse: autolinks become markdown
+ * links, unquoted attribute values are quoted, void elements are self-closed,
+ * and anything that isn't a well-formed tag is escaped as text.
+ */
+function htmlToken(token: string): string {
+  const uri = URI_AUTOLINK.exec(token);
+  if (uri) return `[${escapeText(uri[1])}](${uri[1]})`;
+  const email = EMAIL_AUTOLINK.exec(token);
+  if (email) return `[${escapeText(email[1])}](mailto:${email[1]})`;
+  if (HTML_CLOSE_TAG.test(token)) return token;
+
+  const tag = HTML_OPEN_TAG.exec(token);
+  if (!tag) return escapeText(token);
+  const attributes = [...tag[2].matchAll(HTML_ATTRIBUTE)].map(
+    ([, name, double, single, bare]) => {
+      if (single !== undefined) return ` ${name}='${single}'`;
+      const value = double ?? bare;
+      return value === undefined ? ` ${name}` : ` ${name}="${value}"`;
+    },
+  );
+  const selfClosing = tag[3] === '/' || VOID_ELEMENTS.has(tag[1].toLowerCase());
+  return `<${tag[1]}${attributes.join('')}${selfClosing ? ' />' : '>'}`;
+}
+
+/**
+ * Makes notebook markdown safe for MDX without changing how it renders:
+ * braces and stray `<` are escaped outside code and math, inline HTML goes
+ * through `htmlToken`, comments become MDX comments, and one-line `$$...$$`
+ * and bare LaTeX environments are turned into `$$` blocks so `remark-math`
+ * displays them.
+ */
+export function markdownToMdx(markdown: string): string {
+  const parts = markdown.split(/^((?:`{3,}|~{3,})[^\n]*\n[\s\S]*?^(?:`{3,}|~{3,})[ \t]*$)/m);
+  return parts
+    .map((part, index) => {
+      if (index % 2 === 1) return part;
+      const displayMath = part.replace(/^[ \t]*\$\$([^\n]+?)\$\$[ \t]*$/gm, '$$$$\n$1\n$$$$');
+      return displayMath.replace(MDX_TOKENS, (token: string) => {
+        if (token.startsWith('\\begin')) return `\n$$\n${token}\n$$\n`;
+        if (token.startsWith('<!--')) {
+          return `{/* ${token.slice(4, -3).replace(/\*\//g, '* /').trim()} */}`;
+        }
+        if (token === '{' || token === '}' || token === '<') return escapeText(token);
+        if (token.startsWith('<')) return htmlToken(token);
+        return token;
+      }).replace(/\n{3,}/g, '\n\n');
+    })
+    .join('');
+}
+
+/** First `<table>` in an HTML output as a GFM table, or `null`. */
+export function htmlTableToMarkdown(html: string): string | null {
+  const table = /<table[\s\S]*?<\/table>/i.exec(html);
+  if (!table) return null;
+
+  const rows = [...table[0].matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)].map(row =>
+    [...row[1].matchAll(/<(th|td)[^>]*>([\s\S]*?)<\/\1>/gi)].map(cell =>
+      escapeText(htmlToText(cell[2])).replace(/\|/g, '\\|'),
+    ),
+  );
+  if (rows.length === 0) return null;
+
+  const width = Math.max(...rows.map(row => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+  const [header, ...body] = rows;
+  return [line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+}
+
+class NotebookConverter {
+  assets: NotebookAsset[] = [];
+  private codeCellCount = 0;
+
+  constructor(private readonly language: string) {}
+
+  markdownCell(cell: NotebookCell, source: string, index: number): string {
+    for (const [name, bundle] of Object.entries(cell.attachments ?? {})) {
+      const image = Object.keys(IMAGE_TYPES).find(type => bundle[type] !== undefined);
+      if (!image) continue;
+      const path = `attachment-${index + 1}-${name.replace(/[^\w.-]+/g, '-')}`;
+      this.addImage(path, image, bundle[image]);
+      source = source.split(`attachment:${name}`).join(`./${path}`);
+    }
+    return markdownToMdx(source).trim();
+  }
+
+  /** The cell's code block and rendered outputs, or `null` when there's nothing to show. */
+  codeCell(cell: NotebookCell): { label: string; blocks: string[] } | null {
+    this.codeCellCount += 1;
+    const tags = cell.metadata?.tags ?? [];
+    if (tags.includes('remove-cell')) return null;
+
+    const source = joinSource(cell.source).trim();
+    const blocks: string[] = [];
+    if (source && !tags.includes('remove-input')) blocks.push(fence(source, this.language));
+    if (!tags.includes('remove-output')) blocks.push(...this.outputs(cell.outputs ?? []));
+    if (blocks.length === 0) return null;
+
+    const comment = /^\s*(?:#|\/\/)\s*(.+)/.exec(source.split('\n')[0]);
+    return { label: comment?.[1].trim() ?? `Cell ${this.codeCellCount}`, blocks };
+  }
+
+  private outputs(outputs: NotebookOutput[]): string[] {
+    const blocks: string[] = [];
+    let stdout = '';
+    const flush = () => {
+      if (stdout.trim()) blocks.push(fence(truncate(stdout), 'text'));
+      stdout = '';
+    };
+
+    outputs.forEach((output, index) => {
+      if (output.output_type === 'stream') {
+        if (output.name === 'stdout') stdout += joinSource(output.text);
+        return;
+      }
+      flush();
+      if (output.output_type === 'error') {
+        const traceback = output.traceback.join('\n').replace(ANSI_ESCAPE, '');
+        blocks.push(fence(truncate(traceback || `${output.ename}: ${output.evalue}`), 'text'));
+        return;
+      }
+      const block = this.richOutput(output.data, index);
+      if (block) blocks.push(block);
+    });
+    flush();
+    return blocks;
+  }
+
+  private richOutput(data: MimeBundle, index: number): string | null {
+    const image = Object.keys(IMAGE_TYPES).find(type => data[type] !== undefined);
+    if (image) {
+      const path = `output-${this.codeCellCount}-${index + 1}.${IMAGE_TYPES[image]}`;
+      this.addImage(path, image, data[image]);
+      return `![Output of cell ${this.codeCellCount}](./${path})`;
+    }
+
+    const latex = joinSource(data['text/latex']).trim();
+    if (latex) return `$$\n${latex.replace(/^\$\$?|\$\$?$/g, '').trim()}\n$$`;
+
+    const table = htmlTableToMarkdown(joinSource(data['text/html']));
+    if (table) return table;
+
+    const markdown = joinSource(data['text/markdown']).trim();
+    if (markdown) return markdownToMdx(markdown);
+
+    const text = joinSource(data['text/plain']).trim();
+    if (!text || OBJECT_REPR.test(text)) return null;
+    return fence(truncate(text), 'text');
+  }
+
+  private addImage(path: string, type: string, content: MultilineString | undefined): void {
+    const raw = joinSource(content);
+    const data = type === 'image/svg+xml' ? raw : Buffer.from(raw.replace(/\s+/g, ''), 'base64');
+    this.assets.push({ path, data });
+  }
+}
+
+function codeTabs(cells: { label: string; blocks: string[] }[], groupIndex: number): string {
+  const tabs = cells.map((cell, index) => ({ id: `cell-${groupIndex}-${index + 1}`, ...cell }));
+  const tabList = tabs.map(tab => `{ id: '${tab.id}', label: ${JSON.stringify(tab.label)} }`);
+  const panels = tabs.map(
+    tab => `  <div slot="${tab.id}">\n\n${tab.blocks.join('\n\n')}\n\n  </div>`,
+  );
+  return [
+    `<CodeTabs tabs={[${tabList.join(', ')}]} label="Notebook cells">`,
+    ...panels,
+    '</CodeTabs>',
+  ].join('\n');
+}
+
+export function convertNotebook(notebook: Notebook, options: ConvertOptions): ConvertedNotebook {
+  if (notebook.nbformat !== 4) {
+    throw new Error(`unsupported nbformat ${notebook.nbformat}; only version 4 is supported`);
+  }
+
+  const language =
+    notebook.metadata?.kernelspec?.language ?? notebook.metadata?.language_info?.name ?? '';
+  const converter = new NotebookConverter(language);
+  const sections: string[] = [];
+  let title: string | null = null;
+  let usesCodeTabs = false;
+  let run: { label: string; blocks: string[] }[] = [];
+  let groups = 0;
+
+  const flushRun = () => {
+    if (run.length > 1 && options.groupCode) {
+      groups += 1;
+      usesCodeTabs = true;
+      sections.push(codeTabs(run, groups));
+    } else {
+      sections.push(...run.flatMap(cell => cell.blocks));
+    }
+    run = [];
+  };
+
+  notebook.cells.forEach((cell, index) => {
+    if (cell.cell_type === 'code') {
+      const converted = converter.codeCell(cell);
+      if (converted) run.push(converted);
+      return;
+    }
+    flushRun();
+    if (cell.cell_type !== 'markdown') return;
+
+    let source = joinSource(cell.source);
+    const heading = /^\s*#\s+(.+)\n*/.exec(source);
+    if (heading && title === null && sections.length === 0) {
+      title = heading[1].trim();
+      source = source.slice(heading[0].length);
+    }
+    const markdown = converter.markdownCell(cell, source, index);
+    if (markdown) sections.push(markdown);
+  });
+  flushRun();
+
+  return { title, body: sections.join('\n\n'), assets: converter.assets, usesCodeTabs };
+}
@@ -0,0 +1,142 @@
+/**
+ * Converts a Jupyter notebook into an MDX entry.
+ *
+ *   npm run import-notebook -- <notebook.ipynb> <slug> [--collection projects]
+ *                              [--title <title>] [--date <YYYY-MM-DD>] [--tags a,b]
+ *                              [--code-tabs] [--force]
+ *
+ * Markdown cells become MDX, code cells become highlighted blocks followed by
+ * their outputs, and image outputs are written next to `index.mdx`. Nothing
+ * runs: outputs are taken from the notebook as saved.
+ */
+import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  SITE_ROOT,
+  SLUG_PATTERN,
+  collectionsWithSlug,
+  entryDir,
+  findRelativeReferences,
+  isCollection,
+  parseEntry,
+  parseTags,
+  referencePath,
+  today,
+  unresolvedReferences,
+  validateFrontmatter,
+} from '../src/lib/entries';
+import { convertNotebook, type Notebook } from './_lib/notebook';
+
+const CODE_TABS_IMPORT = "import CodeTabs from '../../../components/post/CodeTabs.astro';";
+
+const USAGE = `Usage: npm run import-notebook -- <notebook.ipynb> <slug> [options]
+
+Options:
+  --collection <name>  projects (default), posts or demos
+  --title <title>      defaults to the notebook's leading "# heading", else the file name
+  --date <YYYY-MM-DD>  defaults to today
+  --tags <a,b>         comma-separated tags
+  --code-tabs          group runs of consecutive code cells into CodeTabs
+  --force              overwrite an existing entry's index.mdx and generated images
+  -h, --help           show this message`;
+
+function fail(message: string): never {
+  console.error(`error: ${message}`);
+  process.exit(1);
+}
+
+function readNotebook(file: string): Notebook {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as Notebook;
+  } catch (error) {
+    fail(`${file} is not a readable notebook: ${(error as Error).message}`);
+  }
+}
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      collection: { type: 'string', default: 'projects' },
+      title: { type: 'string' },
+      date: { type: 'string' },
+      tags: { type: 'string' },
+      'code-tabs': { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 2) fail(`expected <notebook.ipynb> and <slug>\n\n${USAGE}`);
+
+  const [file, slug] = positionals;
+  const collection = values.collection ?? 'projects';
+  if (!isCollection(collection)) fail(`unknown collection "${collection}"`);
+  if (!SLUG_PATTERN.test(slug)) fail(`slug "${slug}" must be lowercase words joined by hyphens`);
+  if (!existsSync(file)) fail(`${file} does not exist`);
+
+  const dir = entryDir(collection, slug);
+  if (existsSync(dir) && !values.force) {
+    fail(`${relative(SITE_ROOT, dir)} already exists; pass --force to overwrite it`);
+  }
+  for (const other of collectionsWithSlug(slug).filter(other => other !== collection)) {
+    console.warn(`warning: ${other}/${slug} already exists; both will share the slug "${slug}"`);
+  }
+
+  let converted;
+  try {
+    converted = convertNotebook(readNotebook(file), { groupCode: values['code-tabs'] ?? false });
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  const frontmatter = [
+    `title: ${JSON.stringify(values.title ?? converted.title ?? basename(file, '.ipynb'))}`,
+    `date: ${values.date ?? today()}`,
+    `tags: ${JSON.stringify(parseTags(values.tags ?? ''))}`,
+  ];
+  const imports = converted.usesCodeTabs ? `\n${CODE_TABS_IMPORT}\n` : '';
+  const source = `---\n${frontmatter.join('\n')}\n---\n${imports}\n${converted.body}\n`;
+
+  const problems = validateFrontmatter(collection, parseEntry(source).data);
+  if (problems.length > 0) fail(`frontmatter is invalid:\n  ${problems.join('\n  ')}`);
+
+  // Images the markdown cells link to by relative path are copied along with the notebook.
+  const notebookDir = dirname(resolve(file));
+  const generated = new Set(converted.assets.map(asset => `./${asset.path}`));
+  const linked = findRelativeReferences(converted.body).filter(
+    reference => reference.kind === 'image' && !generated.has(reference.specifier),
+  );
+  const copies = linked.flatMap(reference => {
+    const path = referencePath(reference);
+    if (path === null) return [];
+    const from = resolve(notebookDir, path);
+    const to = relative(notebookDir, from);
+    if (to.startsWith('..') || isAbsolute(to) || !existsSync(from)) return [];
+    return [{ from, to }];
+  });
+  const missing = unresolvedReferences(linked, notebookDir, dir);
+  if (missing.length > 0) {
+    const list = missing.map(reference => reference.specifier).join('\n  ');
+    fail(`images linked from markdown cells were not found next to the notebook:\n  ${list}`);
+  }
+
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'index.mdx'), source);
+  for (const asset of converted.assets) writeFileSync(join(dir, asset.path), asset.data);
+  for (const copy of copies) {
+    mkdirSync(dirname(join(dir, copy.to)), { recursive: true });
+    copyFileSync(copy.from, join(dir, copy.to));
+  }
+
+  const assetCount = converted.assets.length + copies.length;
+  console.log(`Wrote ${relative(SITE_ROOT, dir)}/index.mdx and ${assetCount} image(s)`);
+  console.log(`Preview at http://localhost:4321/${collection}/${slug}/ with npm run dev`);
+}
+
+main();
@@ -0,0 +1,237 @@
+/**
+ * Scaffolds a new entry, or a shared demo component, from `scripts/templates/`.
+ *
+ *   npm run new -- post|project|demo <slug> [--title <title>] [--tags a,b]
+ *                  [--interactive] [--component <Name>]
+ *   npm run new -- component <Name> [--entry <collection>/<slug>]
+ *
+ * Entries start as drafts, so they only show up under `npm run dev` until
+ * `draft: true` is removed.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { createInterface } from 'node:readline/promises';
+import { parseArgs } from 'node:util';
+import type { ContentCollection } from '../functions/_lib/types';
+import {
+  SITE_ROOT,
+  SLUG_PATTERN,
+  collectionsWithSlug,
+  entryDir,
+  findEntryFile,
+  isCollection,
+  parseEntry,
+  parseTags,
+  today,
+  validateFrontmatter,
+} from '../src/lib/entries';
+
+const TEMPLATE_DIR = join(SITE_ROOT, 'scripts/templates');
+const SHARED_COMPONENT_DIR = join(SITE_ROOT, 'src/components/post');
+const COMPONENT_NAME = /^[A-Z][A-Za-z0-9]*$/;
+
+const KINDS: Record<string, ContentCollection> = {
+  post: 'posts',
+  project: 'projects',
+  demo: 'demos',
+};
+
+const USAGE = `Usage:
+  npm run new -- post|project|demo <slug> [options]
+  npm run new -- component <Name> [--entry <collection>/<slug>]
+
+Options:
+  --title <title>       defaults to the slug in title case (prompted in a terminal)
+  --tags <a,b>          comma-separated tags (prompted in a terminal)
+  --interactive         posts only: add the interactive block (table of contents)
+  --component <Name>    add a starter <Name>.tsx next to the entry, wired with client:visible
+  --entry <key>         component only: import and render it in an existing entry
+  -h, --help            show this message`;
+
+function fail(message: string): never {
+  console.error(`error: ${message}`);
+  process.exit(1);
+}
+
+/**
+ * Fills `{{key}}` placeholders. A placeholder alone on its line is dropped
+ * along with the line when its value is empty.
+ */
+function renderTemplate(name: string, values: Record<string, string>): string {
+  const template = readFileSync(join(TEMPLATE_DIR, name), 'utf8');
+  return template
+    .replace(/^\{\{(\w+)\}\}\n/gm, (_, key: string) => (values[key] ? `${values[key]}\n` : ''))
+    .replace(/\{\{(\w+)\}\}/g, (_, key: string) => values[key] ?? '');
+}
+
+function titleFromSlug(slug: string): string {
+  return slug
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function kebabCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+async function prompt(question: string, fallback: string): Promise<string> {
+  if (!process.stdin.isTTY) return fallback;
+  const readline = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await readline.question(`${question}${fallback ? ` (${fallback})` : ''}: `);
+    return answer.trim() || fallback;
+  } finally {
+    readline.close();
+  }
+}
+
+function writeComponent(file: string, name: string): void {
+  if (existsSync(file)) fail(`${relative(SITE_ROOT, file)} already exists`);
+  writeFileSync(
+    file,
+    renderTemplate('Component.tsx.tmpl', {
+      name,
+      className: kebabCase(name),
+      title: titleFromSlug(kebabCase(name)),
+    }),
+  );
+}
+
+/**
+ * The entry's source with an import added after its existing imports and the
+ * component rendered at the end. Fails without writing anything.
+ */
+function wireComponent(entryFile: string, name: string, specifier: string): string {
+  if (!entryFile.endsWith('.mdx')) {
+    const path = relative(SITE_ROOT, entryFile);
+    fail(`${path} is plain Markdown; rename it to index.mdx to use components`);
+  }
+  const source = readFileSync(entryFile, 'utf8');
+  const { body } = parseEntry(source);
+  const head = source.slice(0, source.length - body.length);
+  const importLine = `import ${name} from '${specifier}';`;
+  if (body.includes(importLine)) {
+    fail(`${name} is already imported in ${relative(SITE_ROOT, entryFile)}`);
+  }
+
+  const imports = [...body.matchAll(/^import .*$/gm)];
+  const last = imports.at(-1);
+  const insertAt = last ? (last.index ?? 0) + last[0].length : 0;
+  const withImport = last
+    ? `${body.slice(0, insertAt)}\n${importLine}${body.slice(insertAt)}`
+    : `\n${importLine}\n${body}`;
+  return `${head}${withImport.trimEnd()}\n\n<${name} client:visible />\n`;
+}
+
+async function newEntry(
+  collection: ContentCollection,
+  slug: string,
+  options: { title?: string; tags?: string; interactive: boolean; component?: string },
+): Promise<void> {
+  if (!SLUG_PATTERN.test(slug)) fail(`slug "${slug}" must be lowercase words joined by hyphens`);
+  if (options.interactive && collection !== 'posts') fail('--interactive only applies to posts');
+  if (options.component && !COMPONENT_NAME.test(options.component)) {
+    fail(`component name "${options.component}" must be PascalCase`);
+  }
+
+  const dir = entryDir(collection, slug);
+  if (existsSync(dir)) fail(`${relative(SITE_ROOT, dir)} already exists`);
+  for (const other of collectionsWithSlug(slug)) {
+    console.warn(`warning: ${other}/${slug} already exists; both will share the slug "${slug}"`);
+  }
+
+  const title = options.title ?? (await prompt('Title', titleFromSlug(slug)));
+  const tags = parseTags(options.tags ?? (await prompt('Tags, comma-separated', '')));
+  const component = options.component;
+
+  const source = renderTemplate(`${collection.slice(0, -1)}.mdx.tmpl`, {
+    title: JSON.stringify(title),
+    date: today(),
+    tags: JSON.stringify(tags),
+    interactive: options.interactive ? 'interactive:\n  toc: true\n  collapsiblePhases: false' : '',
+    imports: component ? `\nimport ${component} from './${component}.tsx';` : '',
+    usage: component ? `\n<${component} client:visible />` : '',
+  });
+
+  const problems = validateFrontmatter(collection, parseEntry(source).data);
+  if (problems.length > 0) fail(`generated frontmatter is invalid:\n  ${problems.join('\n  ')}`);
+
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'index.mdx'), source);
+  if (component) writeComponent(join(dir, `${component}.tsx`), component);
+
+  console.log(`Created ${relative(SITE_ROOT, dir)}/`);
+  console.log(`  index.mdx${component ? `\n  ${component}.tsx` : ''}`);
+  console.log(`Preview at http://localhost:4321/${collection}/${slug}/ with npm run dev`);
+}
+
+function newComponent(name: string, entry?: string): void {
+  if (!COMPONENT_NAME.test(name)) fail(`component name "${name}" must be PascalCase`);
+
+  const file = join(SHARED_COMPONENT_DIR, `${name}.tsx`);
+  const specifier = `../../../components/post/${name}.tsx`;
+  if (existsSync(file)) fail(`${relative(SITE_ROOT, file)} already exists`);
+
+  let entryFile: string | null = null;
+  let wired: string | null = null;
+  if (entry) {
+    const [collection, slug] = entry.split('/');
+    if (!collection || !slug || !isCollection(collection)) {
+      fail(`--entry "${entry}" must be <collection>/<slug>`);
+    }
+    entryFile = findEntryFile(entryDir(collection, slug));
+    if (!entryFile) fail(`${entry} has no index.mdx or index.md`);
+    wired = wireComponent(entryFile, name, specifier);
+  }
+
+  writeComponent(file, name);
+  console.log(`Created ${relative(SITE_ROOT, file)}`);
+
+  if (entryFile && wired) {
+    writeFileSync(entryFile, wired);
+    console.log(`Wired <${name} client:visible /> into ${relative(SITE_ROOT, entryFile)}`);
+  } else {
+    console.log(`Use it from an entry with:\n`);
+    console.log(`  import ${name} from '${specifier}';`);
+    console.log(`  <${name} client:visible />`);
+  }
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      title: { type: 'string' },
+      tags: { type: 'string' },
+      interactive: { type: 'boolean', default: false },
+      component: { type: 'string' },
+      entry: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 2) fail(`expected a kind and a name\n\n${USAGE}`);
+
+  const [kind, name] = positionals;
+  if (kind === 'component') {
+    newComponent(name, values.entry);
+    return;
+  }
+
+  const collection = KINDS[kind];
+  if (!collection) fail(`unknown kind "${kind}"; expected post, project, demo or component`);
+  if (values.entry) fail('--entry only applies to `new component`');
+  await newEntry(collection, name, {
+    title: values.title,
+    tags: values.tags,
+    interactive: values.interactive ?? false,
+    component: values.component,
+  });
+}
+
+main();
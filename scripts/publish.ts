@@ -0,0 +1,176 @@
+/**
+ * Copies an entry directory into the site after validating it, then commits.
+ *
+ *   npm run publish -- <source-dir> <slug> [--collection posts|projects|demos]
+ *                      [--dry-run] [--push]
+ *
+ * Nothing is copied or committed unless the frontmatter matches the
+ * collection's schema and every relative import and image resolves.
+ */
+import { spawnSync } from 'node:child_process';
+import { cpSync, existsSync, mkdtempSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, isAbsolute, join, relative, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ContentCollection } from '../functions/_lib/types';
+import {
+  SITE_ROOT,
+  SLUG_PATTERN,
+  collectionsWithSlug,
+  entryDir,
+  findEntryFile,
+  findRelativeReferences,
+  isCollection,
+  parseEntry,
+  referencePath,
+  unknownRelatedKeys,
+  unresolvedReferences,
+  validateFrontmatter,
+} from '../src/lib/entries';
+
+const SITE_URL = 'https://skhattak.dev';
+const IGNORED_FILES = new Set(['.DS_Store', '.git', 'node_modules', '.ipynb_checkpoints']);
+
+const USAGE = `Usage: npm run publish -- <source-dir> <slug> [options]
+
+Options:
+  --collection <name>  posts (default), projects or demos
+  --dry-run            validate and print the diff without copying or committing
+  --push               push after committing
+  -h, --help           show this message`;
+
+const SINGULAR: Record<ContentCollection, string> = {
+  posts: 'post',
+  projects: 'project',
+  demos: 'demo',
+};
+
+function fail(message: string): never {
+  console.error(`error: ${message}`);
+  process.exit(1);
+}
+
+function git(args: string[], options: { allowFailure?: boolean } = {}) {
+  const result = spawnSync('git', args, { cwd: SITE_ROOT, encoding: 'utf8' });
+  if (result.status !== 0 && !options.allowFailure) {
+    fail(`git ${args.join(' ')} failed:\n${result.stderr || result.stdout}`);
+  }
+  return result;
+}
+
+/** Entry problems that block publishing. Warnings are printed, not returned. */
+function validate(collection: ContentCollection, sourceDir: string, destDir: string): string[] {
+  const file = findEntryFile(sourceDir);
+  if (!file) return [`${sourceDir} has no index.mdx or index.md`];
+
+  let entry;
+  try {
+    entry = parseEntry(readFileSync(file, 'utf8'));
+  } catch (error) {
+    return [`${basename(file)}: ${(error as Error).message}`];
+  }
+
+  const problems = validateFrontmatter(collection, entry.data).map(
+    issue => `frontmatter ${issue}`,
+  );
+  for (const key of unknownRelatedKeys(entry.data)) {
+    problems.push(`frontmatter related: "${key}" is not an existing <collection>/<slug>`);
+  }
+  for (const reference of unresolvedReferences(
+    findRelativeReferences(entry.body),
+    sourceDir,
+    destDir,
+  )) {
+    const problem = referencePath(reference) === null ? 'is not a valid path' : 'does not resolve';
+    problems.push(`${reference.kind} "${reference.specifier}" ${problem}`);
+  }
+  return problems;
+}
+
+function printDiff(destDir: string, sourceDir: string): void {
+  const empty = existsSync(destDir) ? null : mkdtempSync(join(tmpdir(), 'publish-'));
+  const before = empty ?? destDir;
+  try {
+    const { stdout } = git(['diff', '--no-index', '--stat', '--patch', '--', before, sourceDir], {
+      allowFailure: true,
+    });
+    console.log(stdout.trim() ? stdout : 'No changes.');
+  } finally {
+    if (empty) rmSync(empty, { recursive: true, force: true });
+  }
+}
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      collection: { type: 'string', default: 'posts' },
+      'dry-run': { type: 'boolean', default: false },
+      push: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 2) fail(`expected <source-dir> and <slug>\n\n${USAGE}`);
+
+  const [source, slug] = positionals;
+  const collection = values.collection ?? 'posts';
+  if (!isCollection(collection)) fail(`unknown collection "${collection}"`);
+  if (!SLUG_PATTERN.test(slug)) fail(`slug "${slug}" must be lowercase words joined by hyphens`);
+
+  const sourceDir = resolve(source);
+  const destDir = entryDir(collection, slug);
+  if (!existsSync(sourceDir) || !statSync(sourceDir).isDirectory()) {
+    fail(`${source} is not a directory`);
+  }
+  const overlap = [relative(sourceDir, destDir), relative(destDir, sourceDir)];
+  if (overlap.some(path => !path.startsWith('..') && !isAbsolute(path))) {
+    fail('the source directory and the destination overlap');
+  }
+
+  const problems = validate(collection, sourceDir, destDir);
+  if (problems.length > 0) {
+    console.error(`${source} can't be published:`);
+    for (const problem of problems) console.error(`  - ${problem}`);
+    process.exit(1);
+  }
+
+  const elsewhere = collectionsWithSlug(slug).filter(other => other !== collection);
+  for (const other of elsewhere) {
+    console.warn(`warning: ${other}/${slug} already exists; both will share the slug "${slug}"`);
+  }
+  if (existsSync(destDir)) {
+    console.warn(`warning: ${collection}/${slug} already exists and will be replaced`);
+  }
+
+  const destPath = relative(SITE_ROOT, destDir);
+  if (values['dry-run']) {
+    printDiff(destDir, sourceDir);
+    console.log(`Dry run: ${destPath} was not changed.`);
+    return;
+  }
+
+  rmSync(destDir, { recursive: true, force: true });
+  cpSync(sourceDir, destDir, {
+    recursive: true,
+    filter: path => !IGNORED_FILES.has(basename(path)),
+  });
+
+  git(['add', '--all', '--', destPath]);
+  const staged = git(['diff', '--cached', '--quiet', '--', destPath], { allowFailure: true });
+  if (staged.status === 0) {
+    console.log(`${destPath} is already up to date; nothing to commit.`);
+    return;
+  }
+  git(['commit', '--message', `${SINGULAR[collection]}: ${slug}`, '--', destPath]);
+  if (values.push) git(['push']);
+
+  console.log(`\nPublished ${collection}/${slug}${values.push ? '' : ' (not pushed yet)'}`);
+  console.log(`URL will be: ${SITE_URL}/${collection}/${slug}/`);
+}
+
+main();
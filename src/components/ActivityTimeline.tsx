@@ -0,0 +1,215 @@
+import { useMemo } from 'react';
+import type { ActivityItem, ActivityResponse, FlickrItem } from '../../functions/_lib/types';
+import { useFeed } from '../hooks/useFeed';
+
+export const ACTIVITY_LIMIT = 40;
+const MAX_THUMBNAILS = 4;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+type TimelineRow =
+  | { kind: 'photos'; id: string; photos: FlickrItem[] }
+  | { kind: 'single'; id: string; item: Exclude<ActivityItem, { kind: 'photo' }> };
+
+interface TimelineDay {
+  key: string;
+  label: string;
+  rows: TimelineRow[];
+}
+
+// Days are UTC so the build-time render and the hydrated client group items identically.
+function dayKey(input: string): string {
+  if (DATE_ONLY.test(input)) return input;
+  const date = new Date(input);
+  if (Number.isNaN(date.valueOf())) return input;
+  return date.toISOString().slice(0, 10);
+}
+
+function formatDay(key: string): string {
+  const date = new Date(`${key}T00:00:00Z`);
+  if (Number.isNaN(date.valueOf())) return key;
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function formatRating(rating: number | null): string {
+  if (rating == null) return '';
+  return `${'★'.repeat(Math.floor(rating))}${rating % 1 ? '½' : ''}`;
+}
+
+/** Buckets items by UTC day and folds runs of photos into a single row. */
+function groupByDay(items: ActivityItem[]): TimelineDay[] {
+  const days: TimelineDay[] = [];
+  for (const item of items) {
+    const key = dayKey(item.date);
+    let day = days[days.length - 1];
+    if (!day || day.key !== key) {
+      day = { key, label: formatDay(key), rows: [] };
+      days.push(day);
+    }
+
+    const previous = day.rows[day.rows.length - 1];
+    if (item.kind === 'photo') {
+      if (previous?.kind === 'photos') {
+        previous.photos.push(item.photo);
+      } else {
+        day.rows.push({ kind: 'photos', id: item.id, photos: [item.photo] });
+      }
+    } else {
+      day.rows.push({ kind: 'single', id: item.id, item });
+    }
+  }
+  return days;
+}
+
+const verbStyle = {
+  color: 'var(--text-faint)',
+  fontFamily: 'var(--font-mono)',
+  fontSize: '0.78em',
+  marginRight: '6px',
+};
+
+function SingleRow({ item }: { item: Exclude<ActivityItem, { kind: 'photo' }> }) {
+  if (item.kind === 'watch') {
+    const { watch } = item;
+    return (
+      <>
+        <span style={verbStyle}>{watch.reviewText ? 'reviewed' : 'watched'}</span>
+        <a href={watch.link} target="_blank" rel="noopener noreferrer">
+          {watch.filmTitle}
+        </a>
+        {watch.filmYear ? (
+          <span style={{ color: 'var(--text-muted)' }}> ({watch.filmYear})</span>
+        ) : null}
+        {watch.memberRating != null ? (
+          <span style={{ marginLeft: '8px', color: 'var(--gold)' }}>
+            {formatRating(watch.memberRating)}
+          </span>
+        ) : null}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <span style={verbStyle}>published {item.kind}</span>
+      <a href={item.entry.url}>{item.entry.title}</a>
+    </>
+  );
+}
+
+function PhotosRow({ photos }: { photos: FlickrItem[] }) {
+  return (
+    <>
+      <span style={verbStyle}>
+        posted {photos.length === 1 ? 'a photo' : `${photos.length} photos`}
+      </span>
+      <span style={{ display: 'inline-flex', gap: '6px', verticalAlign: 'middle' }}>
+        {photos.slice(0, MAX_THUMBNAILS).map(photo => (
+          <a
+            key={photo.id}
+            href={photo.link}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={photo.title}
+          >
+            <img
+              src={photo.imageUrl}
+              alt={photo.title}
+              loading="lazy"
+              style={{
+                width: '40px',
+                height: '40px',
+                objectFit: 'cover',
+                borderRadius: '6px',
+                border: '1px solid var(--border-soft)',
+                display: 'block',
+              }}
+            />
+          </a>
+        ))}
+        {photos.length > MAX_THUMBNAILS ? (
+          <span style={{ ...verbStyle, alignSelf: 'center' }}>
+            +{photos.length - MAX_THUMBNAILS}
+          </span>
+        ) : null}
+      </span>
+    </>
+  );
+}
+
+interface ActivityTimelineProps {
+  /** Build-time activity rendered on the server and revalidated on mount. */
+  initialData?: ActivityResponse;
+}
+
+export default function ActivityTimeline({ initialData }: ActivityTimelineProps) {
+  const { data, error, isLoading } = useFeed<ActivityResponse>(
+    `/api/activity?limit=${ACTIVITY_LIMIT}`,
+    { initialData },
+  );
+  const days = useMemo(() => groupByDay(data?.items ?? []), [data]);
+
+  if (days.length === 0) {
+    return (
+      <p style={{ color: 'var(--text-muted)' }}>
+        {isLoading
+          ? 'Loading activity...'
+          : error
+            ? "Couldn't load activity right now."
+            : 'Nothing here yet.'}
+      </p>
+    );
+  }
+
+  return (
+    <ol style={{ listStyle: 'none', margin: 0, padding: 0, display: 'grid', gap: '14px' }}>
+      {days.map(day => (
+        <li
+          key={day.key}
+          style={{
+            display: 'grid',
+            gridTemplateColumns: '7.5em minmax(0, 1fr)',
+            gap: '12px',
+            alignItems: 'baseline',
+          }}
+        >
+          <time
+            dateTime={day.key}
+            style={{
+              color: 'var(--text-muted)',
+              fontFamily: 'var(--font-mono)',
+              fontSize: '0.75em',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {day.label}
+          </time>
+          <ul
+            style={{
+              listStyle: 'none',
+              margin: 0,
+              padding: '0 0 0 12px',
+              borderLeft: '1px solid var(--border-soft)',
+              display: 'grid',
+              gap: '8px',
+            }}
+          >
+            {day.rows.map(row => (
+              <li key={row.id} style={{ margin: 0, lineHeight: 1.4 }}>
+                {row.kind === 'photos' ? (
+                  <PhotosRow photos={row.photos} />
+                ) : (
+                  <SingleRow item={row.item} />
+                )}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
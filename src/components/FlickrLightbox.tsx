@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { FlickrItem } from '../../functions/_lib/types';
+import { exifSummary, flickrImageCandidates } from '../lib/flickr';
+
+const SWIPE_THRESHOLD_PX = 48;
+
+interface FlickrLightboxProps {
+  items: FlickrItem[];
+  index: number;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+  formatDate: (input: string | null) => string;
+}
+
+function focusableElements(root: HTMLElement): HTMLElement[] {
+  return Array.from(
+    root.querySelectorAll<HTMLElement>(
+      'a[href], button:not([disabled]), [tabindex]:not([tabindex="-1"])',
+    ),
+  );
+}
+
+const navButtonStyle = {
+  position: 'absolute' as const,
+  top: '50%',
+  transform: 'translateY(-50%)',
+  width: '44px',
+  height: '44px',
+  borderRadius: '999px',
+  border: '1px solid var(--border)',
+  background: 'rgba(8, 13, 23, 0.78)',
+  color: 'var(--text)',
+  fontSize: '1.2em',
+  cursor: 'pointer',
+};
+
+export default function FlickrLightbox({
+  items,
+  index,
+  onNavigate,
+  onClose,
+  formatDate,
+}: FlickrLightboxProps) {
+  const dialogRef = useRef<HTMLDivElement | null>(null);
+  const closeRef = useRef<HTMLButtonElement | null>(null);
+  const swipeStartRef = useRef<{ x: number; y: number } | null>(null);
+  const [candidateIndex, setCandidateIndex] = useState(0);
+
+  const item = items[index];
+  const hasPrevious = index > 0;
+  const hasNext = index < items.length - 1;
+  const candidates = useMemo(() => (item ? flickrImageCandidates(item) : []), [item]);
+  const exif = exifSummary(item?.exif ?? null);
+
+  useEffect(() => {
+    setCandidateIndex(0);
+  }, [item?.id]);
+
+  useEffect(() => {
+    const previousFocus = document.activeElement;
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    closeRef.current?.focus();
+
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      if (previousFocus instanceof HTMLElement) previousFocus.focus();
+    };
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        onClose();
+      } else if (event.key === 'ArrowLeft' && hasPrevious) {
+        event.preventDefault();
+        onNavigate(index - 1);
+      } else if (event.key === 'ArrowRight' && hasNext) {
+        event.preventDefault();
+        onNavigate(index + 1);
+      } else if (event.key === 'Tab' && dialogRef.current) {
+        const focusable = focusableElements(dialogRef.current);
+        if (focusable.length === 0) return;
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (event.shiftKey && document.activeElement === first) {
+          event.preventDefault();
+          last.focus();
+        } else if (!event.shiftKey && document.activeElement === last) {
+          event.preventDefault();
+          first.focus();
+        } else if (!dialogRef.current.contains(document.activeElement)) {
+          event.preventDefault();
+          first.focus();
+        }
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [index, hasPrevious, hasNext, onClose, onNavigate]);
+
+  useEffect(() => {
+    const neighbours = [items[index - 1], items[index + 1]].filter(
+      (neighbour): neighbour is FlickrItem => Boolean(neighbour),
+    );
+    for (const neighbour of neighbours) {
+      const preload = new Image();
+      preload.src = flickrImageCandidates(neighbour)[0];
+    }
+  }, [items, index]);
+
+  if (!item) return null;
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={item.title || 'Flickr photo'}
+      onClick={event => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+      onPointerDown={event => {
+        swipeStartRef.current = { x: event.clientX, y: event.clientY };
+      }}
+      onPointerUp={event => {
+        const start = swipeStartRef.current;
+        swipeStartRef.current = null;
+        if (!start || event.pointerType === 'mouse') return;
+        const dx = event.clientX - start.x;
+        const dy = event.clientY - start.y;
+        if (Math.abs(dx) < SWIPE_THRESHOLD_PX || Math.abs(dx) < Math.abs(dy)) return;
+        if (dx > 0 && hasPrevious) onNavigate(index - 1);
+        if (dx < 0 && hasNext) onNavigate(index + 1);
+      }}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1000,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: '12px',
+        padding: '56px 16px 20px',
+        background: 'rgba(3, 6, 12, 0.94)',
+        touchAction: 'pan-y',
+      }}
+    >
+      <button
+        ref={closeRef}
+        type="button"
+        onClick={onClose}
+        aria-label="Close photo"
+        style={{
+          position: 'absolute',
+          top: '14px',
+          right: '14px',
+          border: '1px solid var(--border)',
+          borderRadius: '999px',
+          background: 'rgba(8, 13, 23, 0.78)',
+          color: 'var(--text)',
+          padding: '6px 12px',
+          fontFamily: 'var(--font-mono)',
+          fontSize: '0.75em',
+          letterSpacing: '0.06em',
+          textTransform: 'uppercase',
+          cursor: 'pointer',
+        }}
+      >
+        close
+      </button>
+
+      <img
+        key={item.id}
+        src={candidates[candidateIndex] ?? item.imageUrl}
+        alt={item.title || 'Flickr photo'}
+        onError={() => {
+          setCandidateIndex(current => Math.min(current + 1, Math.max(0, candidates.length - 1)));
+        }}
+        style={{
+          maxWidth: '100%',
+          maxHeight: 'calc(100vh - 170px)',
+          objectFit: 'contain',
+          borderRadius: '8px',
+          background: '#050913',
+          userSelect: 'none',
+        }}
+        draggable={false}
+      />
+
+      <div style={{ textAlign: 'center', maxWidth: '72ch' }}>
+        <p style={{ margin: 0, fontSize: '0.92em', fontWeight: 600, color: 'var(--text)' }}>
+          {item.title || 'Untitled'}
+        </p>
+        <p
+          style={{
+            margin: '4px 0 0',
+            fontSize: '0.74em',
+            color: 'var(--text-faint)',
+            fontFamily: 'var(--font-mono)',
+          }}
+        >
+          {formatDate(item.dateTaken ?? item.publishedAt)}
+          {' · '}
+          {index + 1} / {items.length}
+          {' · '}
+          <a href={item.link} target="_blank" rel="noopener noreferrer">
+            view on flickr
+          </a>
+        </p>
+        {exif.length > 0 ? (
+          <p
+            style={{
+              margin: '4px 0 0',
+              fontSize: '0.72em',
+              color: 'var(--text-muted)',
+              fontFamily: 'var(--font-mono)',
+            }}
+          >
+            {exif.join(' · ')}
+          </p>
+        ) : null}
+      </div>
+
+      {hasPrevious ? (
+        <button
+          type="button"
+          onClick={() => onNavigate(index - 1)}
+          aria-label="Previous photo"
+          style={{ ...navButtonStyle, left: '14px' }}
+        >
+          ‹
+        </button>
+      ) : null}
+      {hasNext ? (
+        <button
+          type="button"
+          onClick={() => onNavigate(index + 1)}
+          aria-label="Next photo"
+          style={{ ...navButtonStyle, right: '14px' }}
+        >
+          ›
+        </button>
+      ) : null}
+    </div>
+  );
+}
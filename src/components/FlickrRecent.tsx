@@ -1,30 +1,18 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
-
-interface FlickrItem {
-  title: string;
-  link: string;
-  imageUrl: string;
-  publishedAt: string | null;
-  dateTaken: string | null;
-  tags: string[];
-  width: number | null;
-  height: number | null;
-  orientation: 'portrait' | 'landscape' | 'square';
-}
-
-interface FlickrResponse {
-  profile: {
-    title: string;
-    url: string;
-  };
-  updatedAt: string;
-  items: FlickrItem[];
-}
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { FlickrItem, FlickrResponse } from '../../functions/_lib/types';
+import { matchesTags, normalizeTag, parseTagList, type TagMode } from '../../functions/_lib/tags';
+import { useFeed } from '../hooks/useFeed';
+import { useGridColumns } from '../hooks/useGridColumns';
+import { photoHash, photoIdFromHash } from '../lib/flickr';
+import FlickrLightbox from './FlickrLightbox.tsx';
 
 const GRID_GAP_PX = 14;
 const MIN_CARD_WIDTH_PX = 112;
 const MAX_ROWS = 3;
 const MAX_ITEMS = 36;
+const MAX_TAG_CHIPS = 16;
+const DEFAULT_PROFILE_URL = 'https://flickr.com/photos/198040252@N06/';
+const FEED_REQUEST_INIT: RequestInit = { cache: 'no-store' };
 
 function formatDate(input: string | null): string {
   if (!input) return '';
@@ -37,15 +25,39 @@ function formatDate(input: string | null): string {
   });
 }
 
-function toFlickrSizedUrl(url: string, size: string): string {
-  return url.replace(/_([a-z0-9]{1,2})(\.[a-z0-9]+)$/i, `_${size}$2`);
+function writeTagFilterToUrl(tags: string[], mode: TagMode) {
+  const url = new URL(window.location.href);
+  if (tags.length > 0) {
+    url.searchParams.set('tags', tags.join(','));
+  } else {
+    url.searchParams.delete('tags');
+  }
+  if (tags.length > 1 && mode === 'all') {
+    url.searchParams.set('tagmode', 'all');
+  } else {
+    url.searchParams.delete('tagmode');
+  }
+  window.history.replaceState(window.history.state, '', `${url.pathname}${url.search}${url.hash}`);
 }
 
-function featuredAspectRatioFor(orientation: FlickrItem['orientation']): string {
-  if (orientation === 'portrait') return '3 / 4';
-  if (orientation === 'square') return '1 / 1';
-  return '16 / 9';
-}
+const chipStyle = {
+  border: '1px solid var(--border-soft)',
+  borderRadius: '999px',
+  padding: '3px 10px',
+  fontSize: '0.72em',
+  fontFamily: 'var(--font-mono)',
+  letterSpacing: '0.04em',
+  cursor: 'pointer',
+  background: 'transparent',
+  color: 'var(--text-muted)',
+};
+
+const activeChipStyle = {
+  ...chipStyle,
+  border: '1px solid color-mix(in srgb, var(--accent) 66%, var(--border))',
+  background: 'color-mix(in srgb, var(--accent) 14%, transparent)',
+  color: 'var(--text)',
+};
 
 function thumbAspectRatioForSection(section: 'portrait' | 'wide', orientation: FlickrItem['orientation']): string {
   if (section === 'portrait') {
@@ -55,40 +67,19 @@ function thumbAspectRatioForSection(section: 'portrait' | 'wide', orientation: F
   return '16 / 9';
 }
 
-export default function FlickrRecent() {
-  const sectionRef = useRef<HTMLElement | null>(null);
-  const [items, setItems] = useState<FlickrItem[]>([]);
-  const [profileUrl, setProfileUrl] = useState('https://flickr.com/photos/198040252@N06/');
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [columns, setColumns] = useState(5);
-  const [featuredLink, setFeaturedLink] = useState<string | null>(null);
-  const [featuredImageIndex, setFeaturedImageIndex] = useState(0);
-
-  useEffect(() => {
-    const target = sectionRef.current;
-    if (!target || typeof ResizeObserver === 'undefined') return;
-
-    const updateColumns = (width: number) => {
-      if (width <= 0) return;
-      const nextColumns = Math.max(
-        1,
-        Math.floor((width + GRID_GAP_PX) / (MIN_CARD_WIDTH_PX + GRID_GAP_PX)),
-      );
-      setColumns(current => (current === nextColumns ? current : nextColumns));
-    };
-
-    const observer = new ResizeObserver(entries => {
-      for (const entry of entries) {
-        updateColumns(entry.contentRect.width);
-      }
-    });
-
-    observer.observe(target);
-    updateColumns(target.getBoundingClientRect().width);
+interface FlickrRecentProps {
+  /** Build-time snapshot rendered on the server and revalidated on mount. */
+  initialData?: FlickrResponse;
+}
 
-    return () => observer.disconnect();
-  }, []);
+export default function FlickrRecent({ initialData }: FlickrRecentProps) {
+  const sectionRef = useRef<HTMLElement | null>(null);
+  const [activePhotoId, setActivePhotoId] = useState<string | null>(null);
+  // True while the open photo's history entry came from `openPhoto`, so closing can pop it.
+  const pushedPhotoRef = useRef(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<TagMode>('any');
+  const columns = useGridColumns(sectionRef, MIN_CARD_WIDTH_PX, GRID_GAP_PX);
 
   const wideColumns = Math.max(1, Math.ceil(columns / 2));
   const portraitTarget = columns * MAX_ROWS;
@@ -98,84 +89,128 @@ export default function FlickrRecent() {
     Math.max(portraitTarget + wideTarget, 20),
   );
 
-  useEffect(() => {
-    let mounted = true;
-    setIsLoading(true);
-
-    const load = () => {
-      const qs = new URLSearchParams({
-        limit: String(requestedLimit),
-        _: String(Date.now()),
-      });
+  const { data, error, isLoading } = useFeed<FlickrResponse>(
+    `/api/flickr?limit=${requestedLimit}`,
+    { initialData, init: FEED_REQUEST_INIT },
+  );
+  const items = useMemo<FlickrItem[]>(() => data?.items ?? [], [data]);
+  const profileUrl = data?.profile.url || DEFAULT_PROFILE_URL;
 
-      return fetch(`/api/flickr?${qs.toString()}`, { cache: 'no-store' })
-        .then(async response => {
-          if (!response.ok) throw new Error(`Request failed (${response.status})`);
-          return (await response.json()) as FlickrResponse;
-        })
-        .then(data => {
-          if (!mounted) return;
-          setItems(data.items ?? []);
-          setProfileUrl(data.profile?.url || 'https://flickr.com/photos/198040252@N06/');
-          setError(null);
-        })
-        .catch(err => {
-          if (!mounted) return;
-          setError(err instanceof Error ? err.message : 'Failed to load Flickr feed.');
-        })
-        .finally(() => {
-          if (!mounted) return;
-          setIsLoading(false);
-        });
+  useEffect(() => {
+    const syncFromHash = () => {
+      const id = photoIdFromHash(window.location.hash);
+      if (!id) pushedPhotoRef.current = false;
+      setActivePhotoId(id);
     };
-
-    load();
-    const intervalId = window.setInterval(load, 5 * 60 * 1000);
-
+    syncFromHash();
+    window.addEventListener('hashchange', syncFromHash);
+    window.addEventListener('popstate', syncFromHash);
     return () => {
-      mounted = false;
-      window.clearInterval(intervalId);
+      window.removeEventListener('hashchange', syncFromHash);
+      window.removeEventListener('popstate', syncFromHash);
     };
-  }, [requestedLimit]);
+  }, []);
 
   useEffect(() => {
-    if (!featuredLink) return;
-    if (items.some(item => item.link === featuredLink)) return;
-    setFeaturedLink(null);
-  }, [items, featuredLink]);
+    const params = new URLSearchParams(window.location.search);
+    setSelectedTags(parseTagList(params.get('tags')));
+    setTagMode(params.get('tagmode') === 'all' ? 'all' : 'any');
+  }, []);
+
+  const updateTagFilter = useCallback((tags: string[], mode: TagMode) => {
+    setSelectedTags(tags);
+    setTagMode(mode);
+    writeTagFilterToUrl(tags, mode);
+  }, []);
 
-  const featuredItem = useMemo(
-    () => (featuredLink ? items.find(item => item.link === featuredLink) ?? null : null),
-    [items, featuredLink],
+  const tagChips = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+      for (const tag of new Set(item.tags.map(normalizeTag))) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    const popular = [...counts.entries()]
+      .sort(([a, aCount], [b, bCount]) => bCount - aCount || a.localeCompare(b))
+      .slice(0, MAX_TAG_CHIPS)
+      .map(([tag]) => tag);
+    const missingSelected = selectedTags.filter(tag => !popular.includes(tag));
+    return [...missingSelected, ...popular];
+  }, [items, selectedTags]);
+
+  const filteredItems = useMemo(
+    () =>
+      selectedTags.length > 0
+        ? items.filter(item => matchesTags(item.tags, { tags: selectedTags, mode: tagMode }))
+        : items,
+    [items, selectedTags, tagMode],
   );
 
-  const featuredImageCandidates = useMemo(() => {
-    if (!featuredItem) return [];
-    const source = featuredItem.imageUrl;
-    const candidates = [
-      toFlickrSizedUrl(source, 'b'),
-      toFlickrSizedUrl(source, 'c'),
-      toFlickrSizedUrl(source, 'z'),
-      source,
-    ];
-    return candidates.filter((url, index) => candidates.indexOf(url) === index);
-  }, [featuredItem]);
+  const portraitItems = useMemo(
+    () => filteredItems.filter(item => item.orientation === 'portrait').slice(0, portraitTarget),
+    [filteredItems, portraitTarget],
+  );
+  const wideItems = useMemo(
+    () => filteredItems.filter(item => item.orientation !== 'portrait').slice(0, wideTarget),
+    [filteredItems, wideTarget],
+  );
+  const displayedItems = useMemo(
+    () => [...portraitItems, ...wideItems],
+    [portraitItems, wideItems],
+  );
+  // Deep links can name a photo outside the displayed grid; browse the whole feed then.
+  const lightboxItems =
+    activePhotoId && !displayedItems.some(item => item.id === activePhotoId)
+      ? items
+      : displayedItems;
+  const activeIndex = activePhotoId
+    ? lightboxItems.findIndex(item => item.id === activePhotoId)
+    : -1;
+  const feedSettled = error !== null || (data !== null && data !== initialData);
+
+  const clearPhotoHash = useCallback(() => {
+    const { pathname, search } = window.location;
+    window.history.replaceState(null, '', `${pathname}${search}`);
+    setActivePhotoId(null);
+  }, []);
 
   useEffect(() => {
-    setFeaturedImageIndex(0);
-  }, [featuredItem?.link]);
+    // Only give up on a deep link once fresh data has arrived; the snapshot may be older.
+    if (activePhotoId && activeIndex < 0 && feedSettled) clearPhotoHash();
+  }, [activePhotoId, activeIndex, feedSettled, clearPhotoHash]);
+
+  const openPhoto = useCallback((id: string) => {
+    window.history.pushState(null, '', photoHash(id));
+    pushedPhotoRef.current = true;
+    setActivePhotoId(id);
+  }, []);
 
-  const openFlickr = (url: string) => {
-    if (typeof window === 'undefined') return;
-    window.open(url, '_blank', 'noopener,noreferrer');
-  };
+  const navigatePhoto = useCallback(
+    (index: number) => {
+      const next = lightboxItems[index];
+      if (!next) return;
+      window.history.replaceState(null, '', photoHash(next.id));
+      setActivePhotoId(next.id);
+    },
+    [lightboxItems],
+  );
+
+  const closePhoto = useCallback(() => {
+    if (pushedPhotoRef.current) {
+      // The popstate listener clears the active photo once the entry is popped.
+      pushedPhotoRef.current = false;
+      window.history.back();
+      return;
+    }
+    clearPhotoHash();
+  }, [clearPhotoHash]);
 
   const content = useMemo(() => {
-    if (isLoading) {
+    if (isLoading && items.length === 0) {
       return <p style={{ color: 'var(--text-muted)' }}>Loading recent photos...</p>;
     }
 
-    if (error) {
+    if (error && items.length === 0) {
       const isLocalhost =
         typeof window !== 'undefined' &&
         ['localhost', '127.0.0.1'].includes(window.location.hostname);
@@ -209,23 +244,67 @@ export default function FlickrRecent() {
       );
     }
 
-    const portraitItems = items
-      .filter(item => item.orientation === 'portrait')
-      .slice(0, portraitTarget);
-    const wideItems = items
-      .filter(item => item.orientation !== 'portrait')
-      .slice(0, wideTarget);
+    const tagBar =
+      tagChips.length > 0 ? (
+        <div
+          role="group"
+          aria-label="Filter photos by tag"
+          style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginBottom: '14px' }}
+        >
+          {tagChips.map(tag => {
+            const isSelected = selectedTags.includes(tag);
+            return (
+              <button
+                key={tag}
+                type="button"
+                aria-pressed={isSelected}
+                onClick={() =>
+                  updateTagFilter(
+                    isSelected
+                      ? selectedTags.filter(selected => selected !== tag)
+                      : [...selectedTags, tag],
+                    tagMode,
+                  )
+                }
+                style={isSelected ? activeChipStyle : chipStyle}
+              >
+                #{tag}
+              </button>
+            );
+          })}
+          {selectedTags.length > 1 ? (
+            <button
+              type="button"
+              onClick={() => updateTagFilter(selectedTags, tagMode === 'any' ? 'all' : 'any')}
+              title="Toggle between matching any or all selected tags"
+              style={chipStyle}
+            >
+              match {tagMode}
+            </button>
+          ) : null}
+          {selectedTags.length > 0 ? (
+            <button type="button" onClick={() => updateTagFilter([], 'any')} style={chipStyle}>
+              clear
+            </button>
+          ) : null}
+        </div>
+      ) : null;
+
+    if (filteredItems.length === 0) {
+      return (
+        <>
+          {tagBar}
+          <p style={{ color: 'var(--text-muted)' }}>No recent photos match those tags.</p>
+        </>
+      );
+    }
 
     const renderCard = (item: FlickrItem, section: 'portrait' | 'wide') => {
-      const isFeatured = featuredLink === item.link;
-
       return (
         <article
           key={item.link}
           style={{
-            border: isFeatured
-              ? '1px solid color-mix(in srgb, var(--accent) 66%, var(--border))'
-              : '1px solid var(--border-soft)',
+            border: '1px solid var(--border-soft)',
             borderRadius: '10px',
             overflow: 'hidden',
             background:
@@ -235,13 +314,7 @@ export default function FlickrRecent() {
         >
           <button
             type="button"
-            onClick={() => {
-              if (featuredLink === item.link) {
-                openFlickr(item.link);
-                return;
-              }
-              setFeaturedLink(item.link);
-            }}
+            onClick={() => openPhoto(item.id)}
             style={{
               width: '100%',
               border: 0,
@@ -251,11 +324,7 @@ export default function FlickrRecent() {
               cursor: 'pointer',
               display: 'block',
             }}
-            title={
-              featuredLink === item.link
-                ? 'Open this photo on Flickr'
-                : 'Preview this photo in panel'
-            }
+            title="View this photo"
           >
             <img
               src={item.imageUrl}
@@ -301,74 +370,7 @@ export default function FlickrRecent() {
 
     return (
       <>
-        {featuredItem ? (
-          <article
-            style={{
-              border: '1px solid var(--border-soft)',
-              borderRadius: '12px',
-              overflow: 'hidden',
-              marginBottom: '14px',
-              background:
-                'linear-gradient(180deg, rgba(15, 22, 35, 0.96), rgba(11, 17, 29, 0.96))',
-            }}
-          >
-            <button
-              type="button"
-              onClick={() => openFlickr(featuredItem.link)}
-              style={{
-                display: 'block',
-                width: featuredItem.orientation === 'portrait' ? 'min(100%, 460px)' : '100%',
-                border: 0,
-                padding: 0,
-                margin: 0,
-                background: 'transparent',
-                cursor: 'pointer',
-                marginInline: featuredItem.orientation === 'portrait' ? 'auto' : undefined,
-              }}
-              title="Open this photo on Flickr"
-            >
-              <img
-                src={featuredImageCandidates[featuredImageIndex] ?? featuredItem.imageUrl}
-                alt={featuredItem.title || 'Selected Flickr photo'}
-                onError={() => {
-                  setFeaturedImageIndex(current =>
-                    Math.min(current + 1, Math.max(0, featuredImageCandidates.length - 1)),
-                  );
-                }}
-                style={{
-                  width: '100%',
-                  aspectRatio: featuredAspectRatioFor(featuredItem.orientation),
-                  objectFit: featuredItem.orientation === 'portrait' ? 'contain' : 'cover',
-                  display: 'block',
-                  border: 0,
-                  background: '#050913',
-                }}
-              />
-            </button>
-            <div style={{ padding: '10px 12px' }}>
-              <p
-                style={{
-                  margin: 0,
-                  fontSize: '0.86em',
-                  fontWeight: 600,
-                  color: 'var(--text)',
-                }}
-              >
-                {featuredItem.title || 'Untitled'}
-              </p>
-              <p
-                style={{
-                  margin: '3px 0 0',
-                  fontSize: '0.74em',
-                  color: 'var(--text-faint)',
-                }}
-              >
-                {formatDate(featuredItem.dateTaken ?? featuredItem.publishedAt)} · click again to open Flickr
-              </p>
-            </div>
-          </article>
-        ) : null}
-
+        {tagBar}
         {portraitItems.length > 0 ? (
           <>
             <p
@@ -429,10 +431,14 @@ export default function FlickrRecent() {
     profileUrl,
     columns,
     wideColumns,
-    portraitTarget,
-    wideTarget,
-    featuredItem,
-    featuredLink,
+    portraitItems,
+    wideItems,
+    openPhoto,
+    tagChips,
+    selectedTags,
+    tagMode,
+    filteredItems,
+    updateTagFilter,
   ]);
 
   return (
@@ -476,6 +482,15 @@ export default function FlickrRecent() {
         </a>
       </div>
       {content}
+      {activeIndex >= 0 ? (
+        <FlickrLightbox
+          items={lightboxItems}
+          index={activeIndex}
+          onNavigate={navigatePhoto}
+          onClose={closePhoto}
+          formatDate={formatDate}
+        />
+      ) : null}
     </section>
   );
 }
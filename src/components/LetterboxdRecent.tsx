@@ -1,25 +1,7 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
-
-interface LetterboxdItem {
-  title: string;
-  filmTitle: string;
-  filmYear: number | null;
-  memberRating: number | null;
-  watchedDate: string | null;
-  publishedAt: string | null;
-  link: string;
-  posterUrl: string | null;
-  reviewText: string | null;
-}
-
-interface LetterboxdResponse {
-  profile: {
-    handle: string;
-    url: string;
-  };
-  updatedAt: string;
-  items: LetterboxdItem[];
-}
+import { useMemo, useRef, useState } from 'react';
+import type { LetterboxdItem, LetterboxdResponse } from '../../functions/_lib/types';
+import { useFeed } from '../hooks/useFeed';
+import { useGridColumns } from '../hooks/useGridColumns';
 
 const GRID_GAP_PX = 14;
 const MIN_CARD_WIDTH_PX = 130;
@@ -42,76 +24,25 @@ function formatRating(rating: number | null): string {
   return `${rating.toFixed(1)}★`;
 }
 
-export default function LetterboxdRecent() {
+interface LetterboxdRecentProps {
+  /** Build-time snapshot rendered on the server and revalidated on mount. */
+  initialData?: LetterboxdResponse;
+}
+
+export default function LetterboxdRecent({ initialData }: LetterboxdRecentProps) {
   const sectionRef = useRef<HTMLElement | null>(null);
-  const [items, setItems] = useState<LetterboxdItem[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [activeReviewLink, setActiveReviewLink] = useState<string | null>(null);
-  const [columns, setColumns] = useState(5);
-
-  useEffect(() => {
-    const target = sectionRef.current;
-    if (!target || typeof ResizeObserver === 'undefined') return;
-
-    const updateColumns = (width: number) => {
-      if (width <= 0) return;
-      const nextColumns = Math.max(
-        1,
-        Math.floor((width + GRID_GAP_PX) / (MIN_CARD_WIDTH_PX + GRID_GAP_PX)),
-      );
-      setColumns(current => (current === nextColumns ? current : nextColumns));
-    };
-
-    const observer = new ResizeObserver(entries => {
-      for (const entry of entries) {
-        updateColumns(entry.contentRect.width);
-      }
-    });
-
-    observer.observe(target);
-    updateColumns(target.getBoundingClientRect().width);
-
-    return () => observer.disconnect();
-  }, []);
+  const columns = useGridColumns(sectionRef, MIN_CARD_WIDTH_PX, GRID_GAP_PX);
 
   const requestedLimit = Math.min(MAX_ITEMS, Math.max(1, columns * MAX_ROWS));
-
-  useEffect(() => {
-    let mounted = true;
-    setIsLoading(true);
-
-    const load = () =>
-      fetch(`/api/letterboxd?limit=${requestedLimit}`)
-        .then(async response => {
-          if (!response.ok) throw new Error(`Request failed (${response.status})`);
-          return (await response.json()) as LetterboxdResponse;
-        })
-        .then(data => {
-          if (!mounted) return;
-          setItems(data.items ?? []);
-          setError(null);
-        })
-        .catch(err => {
-          if (!mounted) return;
-          setError(err instanceof Error ? err.message : 'Failed to load Letterboxd feed.');
-        })
-        .finally(() => {
-          if (!mounted) return;
-          setIsLoading(false);
-        });
-
-    load();
-    const intervalId = window.setInterval(load, 5 * 60 * 1000);
-
-    return () => {
-      mounted = false;
-      window.clearInterval(intervalId);
-    };
-  }, [requestedLimit]);
+  const { data, error, isLoading } = useFeed<LetterboxdResponse>(
+    `/api/letterboxd?limit=${requestedLimit}`,
+    { initialData },
+  );
+  const items = useMemo<LetterboxdItem[]>(() => data?.items ?? [], [data]);
 
   const content = useMemo(() => {
-    if (isLoading) {
+    if (isLoading && items.length === 0) {
       return (
         <p style={{ color: 'var(--text-muted)' }}>
           Loading recent watches...
@@ -119,7 +50,7 @@ export default function LetterboxdRecent() {
       );
     }
 
-    if (error) {
+    if (error && items.length === 0) {
       const isLocalhost =
         typeof window !== 'undefined' &&
         ['localhost', '127.0.0.1'].includes(window.location.hostname);
@@ -150,7 +81,7 @@ export default function LetterboxdRecent() {
           gap: `${GRID_GAP_PX}px`,
         }}
       >
-        {items.map(item => {
+        {items.slice(0, requestedLimit).map(item => {
           const isReviewActive = activeReviewLink === item.link;
           return (
             <a
@@ -220,6 +151,21 @@ export default function LetterboxdRecent() {
                       pointerEvents: isReviewActive ? 'auto' : 'none',
                     }}
                   >
+                    {item.containsSpoilers ? (
+                      <span
+                        style={{
+                          display: 'block',
+                          marginBottom: '6px',
+                          fontFamily: 'var(--font-mono)',
+                          fontSize: '0.86em',
+                          letterSpacing: '0.06em',
+                          textTransform: 'uppercase',
+                          color: 'var(--gold)',
+                        }}
+                      >
+                        spoilers
+                      </span>
+                    ) : null}
                     {item.reviewText}
                   </div>
                 ) : null}
@@ -260,7 +206,7 @@ export default function LetterboxdRecent() {
         })}
       </div>
     );
-  }, [items, isLoading, error, activeReviewLink, columns]);
+  }, [items, isLoading, error, activeReviewLink, columns, requestedLimit]);
 
   return (
     <section ref={sectionRef} style={{ marginTop: '8px', paddingBottom: '24px' }}>
@@ -0,0 +1,165 @@
+import type {
+  CountBucket,
+  LetterboxdStats as Stats,
+  LetterboxdStatsResponse,
+} from '../../functions/_lib/types';
+import { useFeed } from '../hooks/useFeed';
+
+const RECENT_MONTHS = 12;
+
+function formatStars(rating: number): string {
+  const whole = Math.floor(rating);
+  return `${'★'.repeat(whole)}${rating % 1 ? '½' : ''}`;
+}
+
+function formatMonth(key: string): string {
+  const date = new Date(`${key}-01T00:00:00Z`);
+  if (Number.isNaN(date.valueOf())) return key;
+  return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+}
+
+const labelStyle = {
+  margin: '0 0 6px',
+  fontSize: '0.68em',
+  letterSpacing: '0.08em',
+  textTransform: 'uppercase' as const,
+  color: 'var(--text-faint)',
+  fontFamily: 'var(--font-mono)',
+};
+
+function ColumnChart<TKey extends string | number>({
+  buckets,
+  label,
+  formatKey,
+  height = 56,
+}: {
+  buckets: CountBucket<TKey>[];
+  label: string;
+  formatKey: (key: TKey) => string;
+  height?: number;
+}) {
+  const max = Math.max(1, ...buckets.map(bucket => bucket.count));
+  return (
+    <figure style={{ margin: 0, minWidth: 0 }}>
+      <figcaption style={labelStyle}>{label}</figcaption>
+      <div
+        role="img"
+        aria-label={`${label}: ${buckets.map(bucket => `${formatKey(bucket.key)} ${bucket.count}`).join(', ')}`}
+        style={{
+          display: 'flex',
+          alignItems: 'flex-end',
+          gap: '3px',
+          height: `${height}px`,
+          borderBottom: '1px solid var(--border-soft)',
+        }}
+      >
+        {buckets.map(bucket => (
+          <div
+            key={String(bucket.key)}
+            title={`${formatKey(bucket.key)}: ${bucket.count}`}
+            style={{
+              flex: 1,
+              minWidth: 0,
+              height: `${Math.max(bucket.count > 0 ? 6 : 2, (bucket.count / max) * 100)}%`,
+              borderRadius: '3px 3px 0 0',
+              background:
+                bucket.count > 0
+                  ? 'color-mix(in srgb, var(--accent) 72%, transparent)'
+                  : 'var(--border-soft)',
+            }}
+          />
+        ))}
+      </div>
+    </figure>
+  );
+}
+
+function BarList({
+  buckets,
+  label,
+  formatKey,
+}: {
+  buckets: CountBucket<number>[];
+  label: string;
+  formatKey: (key: number) => string;
+}) {
+  const max = Math.max(1, ...buckets.map(bucket => bucket.count));
+  return (
+    <figure style={{ margin: 0, minWidth: 0 }}>
+      <figcaption style={labelStyle}>{label}</figcaption>
+      <div style={{ display: 'grid', gap: '4px' }}>
+        {buckets.map(bucket => (
+          <div
+            key={bucket.key}
+            style={{
+              display: 'grid',
+              gridTemplateColumns: '3.2em minmax(0, 1fr) 2em',
+              alignItems: 'center',
+              gap: '6px',
+              fontSize: '0.7em',
+              fontFamily: 'var(--font-mono)',
+              color: 'var(--text-muted)',
+            }}
+          >
+            <span>{formatKey(bucket.key)}</span>
+            <span
+              style={{
+                height: '6px',
+                width: `${(bucket.count / max) * 100}%`,
+                borderRadius: '3px',
+                background: 'color-mix(in srgb, var(--gold) 70%, transparent)',
+              }}
+            />
+            <span style={{ textAlign: 'right' }}>{bucket.count}</span>
+          </div>
+        ))}
+      </div>
+    </figure>
+  );
+}
+
+export default function LetterboxdStats() {
+  const { data } = useFeed<LetterboxdStatsResponse>('/api/letterboxd/stats');
+  const stats: Stats | null = data?.stats ?? null;
+
+  if (!stats || stats.totalWatches === 0) return null;
+
+  const recentMonths = stats.watchesByMonth.slice(-RECENT_MONTHS);
+
+  return (
+    <section style={{ paddingBottom: '24px' }}>
+      <p
+        style={{
+          margin: '0 0 12px',
+          fontSize: '0.76em',
+          color: 'var(--text-muted)',
+          fontFamily: 'var(--font-mono)',
+        }}
+      >
+        {stats.totalWatches} logged
+        {stats.averageRating != null ? ` · avg ${stats.averageRating.toFixed(2)}★` : ''}
+        {stats.ratedWatches < stats.totalWatches
+          ? ` · ${stats.totalWatches - stats.ratedWatches} unrated`
+          : ''}
+      </p>
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))',
+          gap: '16px',
+        }}
+      >
+        <ColumnChart buckets={stats.ratings} label="ratings" formatKey={formatStars} />
+        {recentMonths.length > 1 ? (
+          <ColumnChart buckets={recentMonths} label="watches / month" formatKey={formatMonth} />
+        ) : null}
+        {stats.watchesByYear.length > 1 ? (
+          <BarList buckets={stats.watchesByYear} label="watches / year" formatKey={String} />
+        ) : null}
+        {stats.filmDecades.length > 0 ? (
+          <BarList buckets={stats.filmDecades} label="film decades" formatKey={key => `${key}s`} />
+        ) : null}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,280 @@
+import { useEffect, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { createPortal } from 'react-dom';
+import { loadSearchManifest, searchSite, type SearchResult } from '../lib/searchClient';
+
+const QUERY_DELAY_MS = 120;
+
+type Status = 'idle' | 'loading' | 'ready' | 'error';
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName);
+}
+
+const markStyle = {
+  color: 'var(--text)',
+  background: 'color-mix(in srgb, var(--gold) 28%, transparent)',
+  borderRadius: '3px',
+};
+
+const kbdStyle = {
+  fontFamily: 'var(--font-mono)',
+  fontSize: '0.9em',
+  color: 'var(--text-faint)',
+  border: '1px solid var(--border-soft)',
+  borderRadius: '4px',
+  padding: '0 5px',
+};
+
+export default function SearchDialog() {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [status, setStatus] = useState<Status>('idle');
+  const [selected, setSelected] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const shortcut =
+        (event.key === 'k' && (event.ctrlKey || event.metaKey)) ||
+        (event.key === '/' && !event.ctrlKey && !event.metaKey && !isEditable(event.target));
+      if (!shortcut) return;
+      event.preventDefault();
+      setOpen(true);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    inputRef.current?.select();
+    loadSearchManifest().catch(() => setStatus('error'));
+
+    const { overflow } = document.body.style;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, [open]);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setStatus('idle');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('loading');
+    const timer = window.setTimeout(() => {
+      searchSite(query)
+        .then(next => {
+          if (cancelled) return;
+          setResults(next);
+          setSelected(0);
+          setStatus('ready');
+        })
+        .catch(() => {
+          if (!cancelled) setStatus('error');
+        });
+    }, QUERY_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const close = () => setOpen(false);
+
+  const onInputKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      close();
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (results.length === 0) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setSelected(current => (current + step + results.length) % results.length);
+    } else if (event.key === 'Enter' && results[selected]) {
+      event.preventDefault();
+      close();
+      window.location.assign(results[selected].href);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        className="nav-search"
+        onClick={() => setOpen(true)}
+        aria-haspopup="dialog"
+        aria-keyshortcuts="/ Control+K"
+      >
+        search <kbd style={kbdStyle}>/</kbd>
+      </button>
+
+      {/* Portalled out of the nav so its link styles and backdrop-filter don't apply. */}
+      {open
+        ? createPortal(
+            <div
+              onMouseDown={event => {
+                if (event.target === event.currentTarget) close();
+              }}
+              style={{
+                position: 'fixed',
+                inset: 0,
+                zIndex: 100,
+                background: 'rgba(5, 8, 14, 0.72)',
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'flex-start',
+                padding: '10vh 14px 14px',
+              }}
+            >
+              <div
+                role="dialog"
+                aria-modal="true"
+                aria-label="Search the site"
+                style={{
+                  width: '100%',
+                  maxWidth: '640px',
+                  maxHeight: '75vh',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  border: '1px solid var(--border)',
+                  borderRadius: 'var(--radius-lg)',
+                  background:
+                    'linear-gradient(180deg, rgba(14, 20, 33, 0.98), rgba(12, 17, 27, 0.98))',
+                  boxShadow: 'var(--shadow-panel)',
+                  overflow: 'hidden',
+                }}
+              >
+                <input
+                  ref={inputRef}
+                  type="search"
+                  value={query}
+                  onChange={event => setQuery(event.target.value)}
+                  onKeyDown={onInputKeyDown}
+                  placeholder="Search posts, projects and demos"
+                  aria-label="Search query"
+                  aria-controls="site-search-results"
+                  aria-activedescendant={
+                    results[selected] ? `site-search-result-${selected}` : undefined
+                  }
+                  autoComplete="off"
+                  spellCheck={false}
+                  autoFocus
+                  style={{
+                    font: 'inherit',
+                    color: 'var(--text)',
+                    background: 'transparent',
+                    border: 'none',
+                    borderBottom: '1px solid var(--border-soft)',
+                    padding: '16px 18px',
+                    outline: 'none',
+                  }}
+                />
+
+                {status === 'error' ? (
+                  <p style={{ margin: 0, padding: '14px 18px', color: 'var(--text-muted)' }}>
+                    Couldn't load the search index right now.
+                  </p>
+                ) : status === 'ready' && results.length === 0 ? (
+                  <p style={{ margin: 0, padding: '14px 18px', color: 'var(--text-muted)' }}>
+                    No matches for “{query.trim()}”.
+                  </p>
+                ) : null}
+
+                {results.length > 0 ? (
+                  <ul
+                    ref={listRef}
+                    id="site-search-results"
+                    role="listbox"
+                    style={{ listStyle: 'none', margin: 0, padding: '6px', overflowY: 'auto' }}
+                  >
+                    {results.map((result, index) => (
+                      <li
+                        key={result.href}
+                        id={`site-search-result-${index}`}
+                        role="option"
+                        aria-selected={index === selected}
+                        onMouseEnter={() => setSelected(index)}
+                      >
+                        <a
+                          href={result.href}
+                          onClick={close}
+                          style={{
+                            display: 'block',
+                            padding: '10px 12px',
+                            borderRadius: '8px',
+                            color: 'var(--text)',
+                            textDecoration: 'none',
+                            background:
+                              index === selected
+                                ? 'color-mix(in srgb, var(--accent) 14%, transparent)'
+                                : 'transparent',
+                          }}
+                        >
+                          <span
+                            style={{
+                              display: 'block',
+                              fontFamily: 'var(--font-mono)',
+                              fontSize: '0.72em',
+                              letterSpacing: '0.08em',
+                              textTransform: 'uppercase',
+                              color: 'var(--text-faint)',
+                            }}
+                          >
+                            {result.document.collection}
+                          </span>
+                          <span style={{ display: 'block', fontWeight: 600 }}>
+                            {result.document.title}
+                            {result.document.heading ? (
+                              <span style={{ color: 'var(--text-muted)', fontWeight: 400 }}>
+                                {' › '}
+                                {result.document.heading}
+                              </span>
+                            ) : null}
+                          </span>
+                          {result.snippet.length > 0 ? (
+                            <span
+                              style={{
+                                display: 'block',
+                                marginTop: '4px',
+                                fontSize: '0.88em',
+                                lineHeight: 1.45,
+                                color: 'var(--text-muted)',
+                              }}
+                            >
+                              {result.snippet.map((part, partIndex) =>
+                                part.match ? (
+                                  <mark key={partIndex} style={markStyle}>
+                                    {part.text}
+                                  </mark>
+                                ) : (
+                                  part.text
+                                ),
+                              )}
+                            </span>
+                          ) : null}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+              </div>
+            </div>,
+            document.body,
+          )
+        : null}
+    </>
+  );
+}
@@ -1,48 +1,8 @@
-import { defineCollection, z } from 'astro:content';
+import { defineCollection } from 'astro:content';
+import { demoSchema, postSchema, projectSchema } from './content.schemas';
 
-const posts = defineCollection({
-  type: 'content',
-  schema: z.object({
-    title: z.string(),
-    subtitle: z.string().optional(),
-    date: z.coerce.date(),
-    tags: z.array(z.string()).optional(),
-    interactive: z
-      .object({
-        toc: z.boolean().optional(),
-        collapsiblePhases: z.boolean().optional(),
-      })
-      .optional(),
-    draft: z.boolean().optional().default(false),
-  }),
-});
-
-const projects = defineCollection({
-  type: 'content',
-  schema: z.object({
-    title: z.string(),
-    subtitle: z.string().optional(),
-    date: z.coerce.date().optional(),
-    tags: z.array(z.string()).optional(),
-    draft: z.boolean().optional().default(false),
-    external: z
-      .object({
-        href: z.string().url(),
-        label: z.string(),
-      })
-      .optional(),
-  }),
-});
-
-const demos = defineCollection({
-  type: 'content',
-  schema: z.object({
-    title: z.string(),
-    subtitle: z.string().optional(),
-    date: z.coerce.date(),
-    tags: z.array(z.string()).optional(),
-    draft: z.boolean().optional().default(false),
-  }),
-});
+const posts = defineCollection({ type: 'content', schema: postSchema });
+const projects = defineCollection({ type: 'content', schema: projectSchema });
+const demos = defineCollection({ type: 'content', schema: demoSchema });
 
 export const collections = { posts, projects, demos };
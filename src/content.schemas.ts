@@ -0,0 +1,73 @@
+import { z } from 'astro/zod';
+
+/**
+ * Frontmatter schemas for the content collections. They live outside
+ * `content.config.ts` so scripts like `npm run publish` can validate entries
+ * with the exact same rules without going through Astro.
+ */
+
+/** `<collection>/<slug>` entries to recommend ahead of computed matches. */
+const related = z.array(z.string()).optional();
+
+/** Last meaningful edit, for the sitemap; without it the last git commit is used. */
+const updated = z.coerce.date().optional();
+
+/** Routed, but left out of listings, feeds, search and the sitemap. */
+const unlisted = z.boolean().optional().default(false);
+
+export const postSchema = z.object({
+  title: z.string(),
+  subtitle: z.string().optional(),
+  date: z.coerce.date(),
+  updated,
+  tags: z.array(z.string()).optional(),
+  related,
+  interactive: z
+    .object({
+      toc: z.boolean().optional(),
+      collapsiblePhases: z.boolean().optional(),
+    })
+    .optional(),
+  series: z
+    .object({
+      id: z.string().regex(/^[a-z0-9-]+$/, 'series ids are lowercase slugs'),
+      order: z.number().int().positive(),
+    })
+    .optional(),
+  draft: z.boolean().optional().default(false),
+  unlisted,
+});
+
+export const projectSchema = z.object({
+  title: z.string(),
+  subtitle: z.string().optional(),
+  date: z.coerce.date().optional(),
+  updated,
+  tags: z.array(z.string()).optional(),
+  related,
+  draft: z.boolean().optional().default(false),
+  unlisted,
+  external: z
+    .object({
+      href: z.string().url(),
+      label: z.string(),
+    })
+    .optional(),
+});
+
+export const demoSchema = z.object({
+  title: z.string(),
+  subtitle: z.string().optional(),
+  date: z.coerce.date(),
+  updated,
+  tags: z.array(z.string()).optional(),
+  related,
+  draft: z.boolean().optional().default(false),
+  unlisted,
+});
+
+export const contentSchemas = {
+  posts: postSchema,
+  projects: projectSchema,
+  demos: demoSchema,
+};
@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from 'react';
+
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+const FIRST_RETRY_MS = 5000;
+const FOCUS_REFETCH_AFTER_MS = 30 * 1000;
+const STORAGE_PREFIX = 'feed:';
+
+interface CacheEntry<T> {
+  data: T;
+  fetchedAt: number;
+}
+
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+
+function readCache<T>(url: string): CacheEntry<T> | null {
+  const cached = memoryCache.get(url);
+  if (cached) return cached as CacheEntry<T>;
+  try {
+    const raw = window.sessionStorage.getItem(`${STORAGE_PREFIX}${url}`);
+    if (!raw) return null;
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    memoryCache.set(url, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache<T>(url: string, entry: CacheEntry<T>): void {
+  memoryCache.set(url, entry);
+  try {
+    window.sessionStorage.setItem(`${STORAGE_PREFIX}${url}`, JSON.stringify(entry));
+  } catch {
+    // Storage can be full or disabled; the memory cache still covers this page.
+  }
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const inFlight = new Map<string, SharedRequest>();
+
+/**
+ * Shares one request per URL between every hook that asks for it. The request
+ * is only aborted once all of its subscribers have aborted.
+ */
+function fetchShared<T>(url: string, init: RequestInit, signal: AbortSignal): Promise<T> {
+  let shared = inFlight.get(url);
+  if (!shared) {
+    const controller = new AbortController();
+    const request: SharedRequest = {
+      controller,
+      subscribers: 0,
+      promise: fetch(url, { ...init, signal: controller.signal })
+        .then(async response => {
+          if (!response.ok) throw new Error(`Request failed (${response.status})`);
+          return (await response.json()) as unknown;
+        })
+        .finally(() => {
+          if (inFlight.get(url) === request) inFlight.delete(url);
+        }),
+    };
+    inFlight.set(url, request);
+    shared = request;
+  }
+
+  const request = shared;
+  request.subscribers += 1;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      request.subscribers -= 1;
+      if (request.subscribers === 0) {
+        inFlight.delete(url);
+        request.controller.abort();
+      }
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    request.promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value as T);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
+export interface UseFeedOptions<T> {
+  /** Server-rendered data shown until the first fetch completes. */
+  initialData?: T;
+  intervalMs?: number;
+  init?: RequestInit;
+}
+
+export interface FeedState<T> {
+  data: T | null;
+  error: string | null;
+  isLoading: boolean;
+}
+
+/**
+ * Fetches `url` and keeps it fresh: polls every `intervalMs` while the tab is
+ * visible, refetches on focus, backs off exponentially after failures, and
+ * caches the last response in memory and sessionStorage so remounts render
+ * immediately.
+ */
+export function useFeed<T>(url: string, options: UseFeedOptions<T> = {}): FeedState<T> {
+  const { initialData, intervalMs = DEFAULT_INTERVAL_MS } = options;
+  const [data, setData] = useState<T | null>(initialData ?? null);
+  const [error, setError] = useState<string | null>(null);
+  const initRef = useRef(options.init);
+  initRef.current = options.init;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let timer: number | undefined;
+    let failures = 0;
+    let fetchedAt = 0;
+
+    const cached = readCache<T>(url);
+    if (cached) {
+      setData(cached.data);
+      fetchedAt = cached.fetchedAt;
+    }
+
+    const schedule = (delayMs: number) => {
+      window.clearTimeout(timer);
+      if (document.visibilityState === 'hidden') return;
+      timer = window.setTimeout(load, delayMs);
+    };
+
+    const load = () => {
+      window.clearTimeout(timer);
+      fetchShared<T>(url, initRef.current ?? {}, controller.signal)
+        .then(next => {
+          failures = 0;
+          fetchedAt = Date.now();
+          writeCache(url, { data: next, fetchedAt });
+          setData(next);
+          setError(null);
+          schedule(intervalMs);
+        })
+        .catch(err => {
+          if (controller.signal.aborted) return;
+          failures += 1;
+          setError(err instanceof Error ? err.message : 'Request failed.');
+          schedule(Math.min(intervalMs, FIRST_RETRY_MS * 2 ** (failures - 1)));
+        });
+    };
+
+    const refreshIfOlderThan = (maxAgeMs: number) => {
+      const age = Date.now() - fetchedAt;
+      if (age >= maxAgeMs || failures > 0) {
+        load();
+      } else {
+        schedule(intervalMs - age);
+      }
+    };
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        window.clearTimeout(timer);
+      } else {
+        refreshIfOlderThan(intervalMs);
+      }
+    };
+    const onFocus = () => refreshIfOlderThan(FOCUS_REFETCH_AFTER_MS);
+
+    refreshIfOlderThan(intervalMs);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('focus', onFocus);
+
+    return () => {
+      controller.abort();
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('focus', onFocus);
+    };
+  }, [url, intervalMs]);
+
+  return { data, error, isLoading: data === null && error === null };
+}
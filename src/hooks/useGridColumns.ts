@@ -0,0 +1,35 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+/** Number of `minItemWidth` columns, separated by `gap`, that fit in `ref`. */
+export function useGridColumns(
+  ref: RefObject<HTMLElement | null>,
+  minItemWidth: number,
+  gap: number,
+  initialColumns = 5,
+): number {
+  const [columns, setColumns] = useState(initialColumns);
+
+  useEffect(() => {
+    const target = ref.current;
+    if (!target || typeof ResizeObserver === 'undefined') return;
+
+    const updateColumns = (width: number) => {
+      if (width <= 0) return;
+      const nextColumns = Math.max(1, Math.floor((width + gap) / (minItemWidth + gap)));
+      setColumns(current => (current === nextColumns ? current : nextColumns));
+    };
+
+    const observer = new ResizeObserver(entries => {
+      for (const entry of entries) {
+        updateColumns(entry.contentRect.width);
+      }
+    });
+
+    observer.observe(target);
+    updateColumns(target.getBoundingClientRect().width);
+
+    return () => observer.disconnect();
+  }, [ref, minItemWidth, gap]);
+
+  return columns;
+}
@@ -0,0 +1,335 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, readdirSync, statSync } from 'node:fs';
+import { dirname, extname, join, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration, AstroIntegrationLogger } from 'astro';
+import { decodeEntities } from '../../functions/_lib/xml';
+import {
+  CONTENT_DIR,
+  findEntryFile,
+  findRelativeReferences,
+  parseEntry,
+  resolveReference,
+} from './entries';
+import { checkExternalLinks, type ExternalLinkResult } from './externalLinks';
+
+export type Severity = 'error' | 'warn' | 'off';
+
+type Check = 'links' | 'anchors' | 'assets' | 'orphans' | 'duplicates' | 'external';
+
+export interface ContentCheckOptions extends Partial<Record<Check, Severity>> {
+  /** Hosts the external check never requests. */
+  allowHosts?: string[];
+  /** Days a cached external success is trusted before it is requested again. */
+  externalMaxAgeDays?: number;
+}
+
+interface Problem {
+  check: Check;
+  message: string;
+}
+
+const DEFAULTS: Record<Check, Severity> = {
+  links: 'error',
+  anchors: 'error',
+  assets: 'error',
+  orphans: 'warn',
+  duplicates: 'warn',
+  external: 'off',
+};
+
+/** Cloudflare Pages config files, which are read by the platform rather than linked. */
+const PLATFORM_FILES = ['_headers', '_redirects', '_routes.json', '.well-known/'];
+const SOURCE_EXTENSIONS = new Set(['.md', '.mdx', '.ts', '.tsx', '.js', '.jsx', '.astro']);
+const TAG = /<([a-z][\w-]*)\b([^>]*)>/gi;
+const LINK_ATTRIBUTE = /\s(href|src|poster|srcset)=(?:"([^"]*)"|'([^']*)')/gi;
+const ID_ATTRIBUTE = /\s(?:id|name)=(?:"([^"]*)"|'([^']*)')/g;
+const CSS_URL = /url\(\s*['"]?([^'")]+)['"]?\s*\)/g;
+
+function walk(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name);
+    return entry.isDirectory() ? walk(path) : [path];
+  });
+}
+
+function toUrlPath(root: string, file: string): string {
+  return `/${relative(root, file).split(sep).join('/')}`;
+}
+
+/** `decodeURIComponent`, or `null` for a malformed %-escape such as `/100%/`. */
+function decodePath(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+/** URL prefixes served by Pages Functions (`functions/api/` → `/api/`), which aren't in `dist`. */
+function functionRoutes(root: string): string[] {
+  const dir = join(root, 'functions');
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true })
+    .filter(entry => !entry.name.startsWith('_'))
+    .map(entry => `/${entry.name.replace(/\.ts$/, '')}${entry.isDirectory() ? '/' : ''}`);
+}
+
+class BuiltSite {
+  private ids = new Map<string, Set<string>>();
+
+  constructor(readonly dir: string) {}
+
+  /** The file in `dist` that serves the decoded `pathname`, as a static host would pick it. */
+  fileFor(pathname: string): string | null {
+    const path = join(this.dir, pathname);
+    const candidates = pathname.endsWith('/')
+      ? [join(path, 'index.html')]
+      : [path, join(path, 'index.html'), `${path}.html`];
+    return candidates.find(file => existsSync(file) && statSync(file).isFile()) ?? null;
+  }
+
+  idsIn(file: string): Set<string> {
+    let ids = this.ids.get(file);
+    if (!ids) {
+      const html = readFileSync(file, 'utf8');
+      ids = new Set([...html.matchAll(ID_ATTRIBUTE)].map(match => match[1] ?? match[2]));
+      this.ids.set(file, ids);
+    }
+    return ids;
+  }
+}
+
+interface LinkScan {
+  problems: Problem[];
+  /** Every internal URL path some page, stylesheet or script refers to. */
+  referenced: Set<string>;
+  external: string[];
+}
+
+function scanBuiltSite(site: BuiltSite, origin: string, ignored: string[]): LinkScan {
+  const problems: Problem[] = [];
+  const referenced = new Set<string>();
+  const external = new Set<string>();
+  const files = walk(site.dir);
+
+  const malformed = (pagePath: string, value: string) =>
+    problems.push({ check: 'links', message: `${pagePath}: ${value} has a malformed %-escape` });
+
+  const resolveUrl = (raw: string, base: string): URL | null => {
+    const value = decodeEntities(raw.trim());
+    if (!value || /^(?:mailto|tel|javascript|data|blob):/i.test(value)) return null;
+    try {
+      return new URL(value, base);
+    } catch {
+      return null;
+    }
+  };
+
+  for (const file of files) {
+    const pagePath = toUrlPath(site.dir, file).replace(/index\.html$/, '');
+    const base = `${origin}${pagePath}`;
+    const extension = extname(file);
+
+    if (extension === '.js') {
+      const source = readFileSync(file, 'utf8');
+      for (const match of source.matchAll(/["'`](\/[\w./-]+\.\w+)["'`]/g)) {
+        referenced.add(match[1]);
+      }
+      continue;
+    }
+    if (extension !== '.html' && extension !== '.css') continue;
+
+    const text = readFileSync(file, 'utf8');
+    for (const match of text.matchAll(CSS_URL)) {
+      const url = resolveUrl(match[1], base);
+      if (url?.origin !== origin) continue;
+      const path = decodePath(url.pathname);
+      if (path === null) malformed(pagePath, match[1]);
+      else referenced.add(path);
+    }
+    if (extension === '.css') continue;
+
+    const links = [...text.matchAll(TAG)].flatMap(([, tag, attributes]) =>
+      [...attributes.matchAll(LINK_ATTRIBUTE)].map(match => ({ tag, match })),
+    );
+    for (const { tag, match } of links) {
+      const attribute = match[1].toLowerCase();
+      const values = attribute === 'srcset'
+        ? (match[2] ?? match[3]).split(',').map(candidate => candidate.trim().split(/\s+/)[0])
+        : [match[2] ?? match[3]];
+
+      for (const value of values) {
+        const url = resolveUrl(value, base);
+        if (!url) continue;
+        if (url.origin !== origin) {
+          if (/^https?:$/.test(url.protocol) && tag.toLowerCase() === 'a') {
+            external.add(url.href.replace(/#.*$/, ''));
+          }
+          continue;
+        }
+        if (ignored.some(prefix => url.pathname.startsWith(prefix))) continue;
+
+        const path = decodePath(url.pathname);
+        const fragment = decodePath(url.hash.slice(1));
+        if (path === null || fragment === null) {
+          malformed(pagePath, value);
+          continue;
+        }
+        referenced.add(path);
+        const target = site.fileFor(path);
+        if (!target) {
+          const check = tag.toLowerCase() === 'a' ? 'links' : 'assets';
+          problems.push({ check, message: `${pagePath}: ${value} does not exist` });
+          continue;
+        }
+        if (fragment && target.endsWith('.html') && !site.idsIn(target).has(fragment)) {
+          problems.push({ check: 'anchors', message: `${pagePath}: ${value} has no #${fragment}` });
+        }
+      }
+    }
+  }
+
+  return { problems, referenced, external: [...external].sort() };
+}
+
+function findOrphans(root: string, publicDir: string, referenced: Set<string>): Problem[] {
+  const problems: Problem[] = [];
+
+  for (const file of walk(publicDir)) {
+    const urlPath = toUrlPath(publicDir, file);
+    if (PLATFORM_FILES.some(name => urlPath.slice(1).startsWith(name))) continue;
+    if (referenced.has(urlPath)) continue;
+    problems.push({ check: 'orphans', message: `${relative(root, file)} is not used by any page` });
+  }
+
+  for (const collection of readdirSync(CONTENT_DIR, { withFileTypes: true })) {
+    if (!collection.isDirectory()) continue;
+    for (const entry of readdirSync(join(CONTENT_DIR, collection.name), { withFileTypes: true })) {
+      const dir = join(CONTENT_DIR, collection.name, entry.name);
+      if (!entry.isDirectory() || !findEntryFile(dir)) continue;
+
+      const files = walk(dir);
+      const used = new Set<string>();
+      for (const file of files.filter(path => SOURCE_EXTENSIONS.has(extname(path)))) {
+        const source = readFileSync(file, 'utf8');
+        const body = /\.mdx?$/.test(file) ? parseEntry(source).body : source;
+        for (const reference of findRelativeReferences(body)) {
+          const target = resolveReference(reference, dirname(file));
+          if (target) used.add(target);
+        }
+      }
+      for (const file of files) {
+        if (file === findEntryFile(dir) || used.has(file)) continue;
+        problems.push({ check: 'orphans', message: `${relative(root, file)} is not referenced` });
+      }
+    }
+  }
+  return problems;
+}
+
+function findDuplicates(root: string, publicDir: string): Problem[] {
+  const hashes = new Map<string, string[]>();
+  const contentFiles = walk(CONTENT_DIR).filter(file => !SOURCE_EXTENSIONS.has(extname(file)));
+  for (const file of [...walk(publicDir), ...contentFiles]) {
+    if (statSync(file).size === 0) continue;
+    const hash = createHash('sha1').update(readFileSync(file)).digest('hex');
+    hashes.set(hash, [...(hashes.get(hash) ?? []), file]);
+  }
+
+  const problems: Problem[] = [];
+  for (const files of hashes.values()) {
+    const inPublic = files.filter(file => file.startsWith(publicDir + sep));
+    const inContent = files.filter(file => file.startsWith(CONTENT_DIR + sep));
+    if (inPublic.length === 0 || inContent.length === 0) continue;
+    const paths = files.map(file => relative(root, file)).join(' and ');
+    problems.push({
+      check: 'duplicates',
+      message: `${paths} are identical; import or link the entry's copy and delete the public one`,
+    });
+  }
+  return problems;
+}
+
+function externalProblems(result: ExternalLinkResult): Problem[] {
+  const problems: Problem[] = result.broken.map(({ url, status }) => ({
+    check: 'external',
+    message: `${url} answered HTTP ${status}`,
+  }));
+  const { unverified } = result;
+  if (unverified.length > 0) {
+    const sample = unverified.slice(0, 3).join(', ');
+    const more = unverified.length > 3 ? `, and ${unverified.length - 3} more` : '';
+    problems.push({
+      check: 'external',
+      message: `${unverified.length} link(s) were unreachable and aren't cached: ${sample}${more}`,
+    });
+  }
+  return problems;
+}
+
+/**
+ * Checks the finished build: internal links, heading anchors and asset URLs
+ * in every page, unused files in `public/` and entry directories, files
+ * duplicated between the two, and optionally external links. Checks set to
+ * `error` fail the build; `CONTENT_CHECK=warn` downgrades them for a run.
+ */
+export default function contentCheck(options: ContentCheckOptions = {}): AstroIntegration {
+  const severity: Record<Check, Severity> = { ...DEFAULTS };
+  for (const check of Object.keys(DEFAULTS) as Check[]) {
+    severity[check] = options[check] ?? DEFAULTS[check];
+  }
+  if (process.env.CHECK_EXTERNAL_LINKS && severity.external === 'off') severity.external = 'warn';
+
+  let root = process.cwd();
+  let publicDir = join(root, 'public');
+  let origin = 'http://localhost';
+
+  const report = (problems: Problem[], logger: AstroIntegrationLogger) => {
+    const downgrade = process.env.CONTENT_CHECK === 'warn';
+    const shown = problems.filter(problem => severity[problem.check] !== 'off');
+    let errors = 0;
+    for (const problem of shown) {
+      if (severity[problem.check] === 'error' && !downgrade) {
+        errors += 1;
+        logger.error(`[${problem.check}] ${problem.message}`);
+      } else {
+        logger.warn(`[${problem.check}] ${problem.message}`);
+      }
+    }
+    const checks = (Object.keys(severity) as Check[]).filter(check => severity[check] !== 'off');
+    logger.info(`${shown.length} problem(s) found checking ${checks.join(', ')}`);
+    if (errors > 0) {
+      throw new Error(`Content check found ${errors} problem(s); see the errors above.`);
+    }
+  };
+
+  return {
+    name: 'content-check',
+    hooks: {
+      'astro:config:done': ({ config }) => {
+        root = fileURLToPath(config.root);
+        publicDir = fileURLToPath(config.publicDir).replace(/[\\/]$/, '');
+        if (config.site) origin = new URL(config.site).origin;
+      },
+      'astro:build:done': async ({ dir, logger }) => {
+        const site = new BuiltSite(fileURLToPath(dir));
+        const scan = scanBuiltSite(site, origin, functionRoutes(root));
+        const problems = [...scan.problems];
+        if (severity.orphans !== 'off') {
+          problems.push(...findOrphans(root, publicDir, scan.referenced));
+        }
+        if (severity.duplicates !== 'off') problems.push(...findDuplicates(root, publicDir));
+        if (severity.external !== 'off') {
+          const external = await checkExternalLinks(scan.external, {
+            maxAgeDays: options.externalMaxAgeDays ?? 30,
+            allowHosts: options.allowHosts ?? [],
+          });
+          problems.push(...externalProblems(external));
+        }
+        report(problems, logger);
+      },
+    },
+  };
+}
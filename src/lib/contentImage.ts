@@ -0,0 +1,21 @@
+/** Entry bodies are at most ~860px wide; variants above that serve high-DPI screens. */
+const CONTENT_WIDTH = 860;
+const WIDTHS = [480, 768, 1080, 1440, 2160];
+
+export interface ContentImageLayout {
+  /** Widths to generate, never wider than the source. */
+  widths: number[];
+  sizes: string;
+}
+
+/**
+ * Responsive widths and `sizes` for an image in an entry body. Authors size
+ * images with `style="width:30%"`, so `sizes` is scaled to match.
+ */
+export function contentImageLayout(sourceWidth: number, style = ''): ContentImageLayout {
+  const largest = Math.min(sourceWidth, WIDTHS.at(-1)!);
+  const widths = [...WIDTHS.filter(width => width < largest), largest];
+  const percent = Number(/(?:^|;)\s*width\s*:\s*([\d.]+)%/.exec(style)?.[1] ?? 100);
+  const displayWidth = Math.min(sourceWidth, Math.round((CONTENT_WIDTH * percent) / 100));
+  return { widths, sizes: `(max-width: 920px) ${Math.round(percent)}vw, ${displayWidth}px` };
+}
@@ -0,0 +1,32 @@
+import type {
+  ContentCollection,
+  ContentIndex,
+  ContentIndexEntry,
+} from '../../functions/_lib/types';
+import { normalizeContentTags } from './contentTags';
+import { entrySlug, entryUrl } from './urls';
+import { getListedEntries } from './visibility';
+
+const COLLECTIONS: ContentCollection[] = ['posts', 'projects', 'demos'];
+
+/** Every published entry across the content collections, newest first. */
+export async function buildContentIndex(): Promise<ContentIndex> {
+  const entries: ContentIndexEntry[] = [];
+
+  for (const collection of COLLECTIONS) {
+    for (const entry of await getListedEntries(collection)) {
+      entries.push({
+        collection,
+        slug: entrySlug(entry),
+        title: entry.data.title,
+        subtitle: entry.data.subtitle ?? null,
+        date: entry.data.date?.toISOString() ?? null,
+        tags: normalizeContentTags(entry.data.tags),
+        url: entryUrl(entry),
+      });
+    }
+  }
+
+  entries.sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''));
+  return { generatedAt: new Date().toISOString(), entries };
+}
@@ -0,0 +1,48 @@
+import type { ContentIndexEntry } from '../../functions/_lib/types';
+import { buildContentIndex } from './contentIndex';
+
+/**
+ * Alternate spellings and the canonical tag they are filed under. Keys are
+ * matched after lowercasing; add an entry here rather than renaming tags in
+ * old frontmatter.
+ */
+export const TAG_ALIASES: Record<string, string> = {
+  'c++': 'cpp',
+  'three.js': 'threejs',
+  'three-js': 'threejs',
+  riscv: 'risc-v',
+  rv32i: 'risc-v',
+  js: 'javascript',
+  ts: 'typescript',
+  nn: 'neural-networks',
+  'neural-nets': 'neural-networks',
+};
+
+/** Canonical, URL-safe form of a frontmatter tag. */
+export function normalizeContentTag(tag: string): string {
+  const lowered = tag.trim().toLowerCase();
+  const aliased = TAG_ALIASES[lowered] ?? lowered;
+  return aliased.replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+export function normalizeContentTags(tags: string[] | undefined): string[] {
+  return [...new Set((tags ?? []).map(normalizeContentTag).filter(Boolean))];
+}
+
+export interface TagSummary {
+  tag: string;
+  entries: ContentIndexEntry[];
+}
+
+/** Every tag in use across the collections, most used first. */
+export async function getTagIndex(): Promise<TagSummary[]> {
+  const byTag = new Map<string, ContentIndexEntry[]>();
+  for (const entry of (await buildContentIndex()).entries) {
+    for (const tag of entry.tags) {
+      byTag.set(tag, [...(byTag.get(tag) ?? []), entry]);
+    }
+  }
+  return [...byTag.entries()]
+    .map(([tag, entries]) => ({ tag, entries }))
+    .sort((a, b) => b.entries.length - a.entries.length || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,170 @@
+import { existsSync, statSync } from 'node:fs';
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { load as parseYaml } from 'js-yaml';
+import type { ContentCollection } from '../../functions/_lib/types';
+import { contentSchemas } from '../content.schemas';
+
+export const SITE_ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '../..');
+export const CONTENT_DIR = join(SITE_ROOT, 'src/content');
+export const COLLECTIONS: ContentCollection[] = ['posts', 'projects', 'demos'];
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const ENTRY_FILES = ['index.mdx', 'index.md'];
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const IMPORT_EXTENSIONS = ['', '.tsx', '.ts', '.jsx', '.js', '.astro', '.mdx', '.md', '.json'];
+
+/** Today's local date as `YYYY-MM-DD`, for frontmatter. */
+export function today(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/** Splits a comma-separated `--tags` value. */
+export function parseTags(value: string): string[] {
+  return value
+    .split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function isCollection(value: string): value is ContentCollection {
+  return (COLLECTIONS as string[]).includes(value);
+}
+
+export function entryDir(collection: ContentCollection, slug: string): string {
+  return join(CONTENT_DIR, collection, slug);
+}
+
+/** `index.mdx` or `index.md` inside an entry directory, or `null`. */
+export function findEntryFile(dir: string): string | null {
+  for (const name of ENTRY_FILES) {
+    const file = join(dir, name);
+    if (existsSync(file)) return file;
+  }
+  return null;
+}
+
+/** Collections that already have an entry called `slug`. */
+export function collectionsWithSlug(slug: string): ContentCollection[] {
+  return COLLECTIONS.filter(
+    collection =>
+      existsSync(entryDir(collection, slug)) ||
+      existsSync(join(CONTENT_DIR, collection, `${slug}.mdx`)) ||
+      existsSync(join(CONTENT_DIR, collection, `${slug}.md`)),
+  );
+}
+
+export interface ParsedEntry {
+  data: Record<string, unknown>;
+  body: string;
+}
+
+export function parseEntry(source: string): ParsedEntry {
+  const match = FRONTMATTER.exec(source);
+  if (!match) throw new Error('missing frontmatter (a leading `---` block)');
+  const data = parseYaml(match[1]) ?? {};
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('frontmatter must be a YAML mapping');
+  }
+  return { data: data as Record<string, unknown>, body: source.slice(match[0].length) };
+}
+
+/** Human-readable schema problems, empty when `data` is valid for `collection`. */
+export function validateFrontmatter(
+  collection: ContentCollection,
+  data: Record<string, unknown>,
+): string[] {
+  const result = contentSchemas[collection].safeParse(data);
+  if (result.success) return [];
+  return result.error.issues.map(issue => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(frontmatter)';
+    return `${path}: ${issue.message}`;
+  });
+}
+
+/** `related` keys that don't name an existing `<collection>/<slug>` entry. */
+export function unknownRelatedKeys(data: Record<string, unknown>): string[] {
+  const related = Array.isArray(data.related) ? data.related : [];
+  return related
+    .map(key => String(key))
+    .filter(key => {
+      const [collection, slug] = key.split('/');
+      if (!collection || !slug || !isCollection(collection)) return true;
+      return !collectionsWithSlug(slug).includes(collection);
+    });
+}
+
+export interface Reference {
+  kind: 'import' | 'image';
+  specifier: string;
+}
+
+/** Relative imports and image paths in an MDX body, ignoring fenced code. */
+export function findRelativeReferences(body: string): Reference[] {
+  const prose = body.replace(/^(```|~~~)[\s\S]*?^\1/gm, '');
+  const references: Reference[] = [];
+
+  for (const match of prose.matchAll(/^\s*import\s+(?:[^'";]*?\s+from\s+)?['"]([^'"]+)['"]/gm)) {
+    if (match[1].startsWith('.')) references.push({ kind: 'import', specifier: match[1] });
+  }
+
+  const images = [
+    ...prose.matchAll(/!\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^"']*["'])?\s*\)/g),
+    ...prose.matchAll(/\b(?:src|poster)=["']([^"']+)["']/g),
+  ];
+  for (const match of images) {
+    const specifier = match[1];
+    if (/^(?:[a-z][a-z0-9+.-]*:|\/|#)/i.test(specifier)) continue;
+    references.push({ kind: 'image', specifier });
+  }
+
+  return references;
+}
+
+function candidatesFor(path: string, kind: Reference['kind']): string[] {
+  if (kind !== 'import') return [path];
+  return [
+    ...IMPORT_EXTENSIONS.map(extension => `${path}${extension}`),
+    ...IMPORT_EXTENSIONS.slice(1).map(extension => join(path, `index${extension}`)),
+  ];
+}
+
+/** The path a reference names, without query or hash; `null` for malformed %-escapes. */
+export function referencePath(reference: Reference): string | null {
+  try {
+    return decodeURIComponent(reference.specifier.replace(/[?#].*$/, ''));
+  } catch {
+    return null;
+  }
+}
+
+/** The file a reference points at from `fromDir`, or `null` when there isn't one. */
+export function resolveReference(reference: Reference, fromDir: string): string | null {
+  const clean = referencePath(reference);
+  if (clean === null) return null;
+  const candidates = candidatesFor(resolve(fromDir, clean), reference.kind);
+  const isFile = (candidate: string) => existsSync(candidate) && statSync(candidate).isFile();
+  return candidates.find(isFile) ?? null;
+}
+
+/**
+ * References that won't resolve once the entry is copied from `sourceDir` to
+ * `destDir`. Paths inside the entry are checked against the source; paths
+ * that climb out of it (`../../components/...`) against the site. Specifiers
+ * that aren't valid paths are always unresolved.
+ */
+export function unresolvedReferences(
+  references: Reference[],
+  sourceDir: string,
+  destDir: string,
+): Reference[] {
+  return references.filter(reference => {
+    const clean = referencePath(reference);
+    if (clean === null) return true;
+    const inside = relative(sourceDir, resolve(sourceDir, clean));
+    const staysInside = !inside.startsWith('..') && !isAbsolute(inside);
+    return !resolveReference(reference, staysInside ? sourceDir : destDir);
+  });
+}
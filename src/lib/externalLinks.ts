@@ -0,0 +1,97 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+const CACHE_FILE = join(process.cwd(), 'src/data/external-links.json');
+const REQUEST_TIMEOUT_MS = 8000;
+const CONCURRENCY = 4;
+const USER_AGENT = 'skhattak.dev link checker';
+
+interface CachedResult {
+  status: number;
+  checked: string;
+}
+
+type LinkCache = Record<string, CachedResult>;
+
+export interface ExternalLinkOptions {
+  /** Cached successes younger than this are trusted without a request. */
+  maxAgeDays: number;
+  /** Hosts that are never requested, e.g. sites that block automated clients. */
+  allowHosts: string[];
+}
+
+export interface ExternalLinkResult {
+  /** Links that answered with an HTTP error. */
+  broken: { url: string; status: number }[];
+  /** Links that couldn't be reached and have no cached success to fall back on. */
+  unverified: string[];
+}
+
+async function readCache(): Promise<LinkCache> {
+  try {
+    return JSON.parse(await readFile(CACHE_FILE, 'utf8')) as LinkCache;
+  } catch {
+    return {};
+  }
+}
+
+async function requestStatus(url: string): Promise<number> {
+  const request = (method: string) =>
+    fetch(url, {
+      method,
+      redirect: 'follow',
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  const head = await request('HEAD');
+  // Plenty of servers reject HEAD outright; only a GET answer counts as broken.
+  if (head.status < 400) return head.status;
+  return (await request('GET')).status;
+}
+
+function isFresh(result: CachedResult | undefined, maxAgeDays: number): boolean {
+  if (!result || result.status >= 400) return false;
+  const age = Date.now() - new Date(result.checked).getTime();
+  return age < maxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Requests every external URL that isn't allowlisted or freshly cached.
+ * `src/data/external-links.json` records past successes, so offline builds
+ * still pass for links that were reachable before; set
+ * `UPDATE_LINK_CACHE=1` to write this run's results back to it.
+ */
+export async function checkExternalLinks(
+  urls: string[],
+  options: ExternalLinkOptions,
+): Promise<ExternalLinkResult> {
+  const cache = await readCache();
+  const today = new Date().toISOString().slice(0, 10);
+  const result: ExternalLinkResult = { broken: [], unverified: [] };
+  const pending = urls.filter(url => {
+    const host = new URL(url).hostname;
+    const allowed = options.allowHosts.some(allow => host === allow || host.endsWith(`.${allow}`));
+    return !allowed && !isFresh(cache[url], options.maxAgeDays);
+  });
+
+  const worker = async () => {
+    for (let url = pending.shift(); url; url = pending.shift()) {
+      try {
+        const status = await requestStatus(url);
+        if (status >= 400) result.broken.push({ url, status });
+        cache[url] = { status, checked: today };
+      } catch {
+        if (!cache[url] || cache[url].status >= 400) result.unverified.push(url);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  if (process.env.UPDATE_LINK_CACHE) {
+    const sorted = Object.fromEntries(Object.entries(cache).sort(([a], [b]) => a.localeCompare(b)));
+    await mkdir(dirname(CACHE_FILE), { recursive: true });
+    await writeFile(CACHE_FILE, `${JSON.stringify(sorted, null, 2)}\n`);
+  }
+  result.unverified.sort();
+  return result;
+}
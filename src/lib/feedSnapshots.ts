@@ -0,0 +1,75 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { loadFlickrFeed } from '../../functions/_lib/flickr';
+import { fetchLetterboxdFeed } from '../../functions/_lib/letterboxd';
+import type { FlickrResponse, LetterboxdResponse } from '../../functions/_lib/types';
+
+const LIVE_TIMEOUT_MS = 8000;
+const SNAPSHOT_DIR = join(process.cwd(), 'src/data/feeds');
+
+/** Matches the most either media panel will ever show. */
+const SNAPSHOT_ITEMS = { letterboxd: 20, flickr: 36 };
+
+type SnapshotName = keyof typeof SNAPSHOT_ITEMS;
+
+async function readCommitted<T>(name: SnapshotName): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(join(SNAPSHOT_DIR, `${name}.json`), 'utf8')) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fetches a feed at build time so pages can server-render real cards.
+ * Falls back to a snapshot committed to `src/data/feeds/` when the network is
+ * unavailable, and to nothing when there is none, leaving the panel to load
+ * in the browser. Set `UPDATE_FEED_SNAPSHOTS=1` to write a successful fetch
+ * to that directory.
+ */
+async function loadSnapshot<T extends { items: unknown[]; warnings?: string[] }>(
+  name: SnapshotName,
+  fetchLive: (signal: AbortSignal) => Promise<T>,
+): Promise<T | undefined> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`timed out after ${LIVE_TIMEOUT_MS}ms`)),
+    LIVE_TIMEOUT_MS,
+  );
+  try {
+    const live = await fetchLive(controller.signal);
+    const snapshot = { ...live, items: live.items.slice(0, SNAPSHOT_ITEMS[name]) };
+    delete snapshot.warnings;
+    if (process.env.UPDATE_FEED_SNAPSHOTS) {
+      const json = `${JSON.stringify(snapshot, null, 2)}\n`;
+      await mkdir(SNAPSHOT_DIR, { recursive: true });
+      await writeFile(join(SNAPSHOT_DIR, `${name}.json`), json);
+    }
+    return snapshot;
+  } catch (error) {
+    const cause = controller.signal.aborted ? controller.signal.reason : error;
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    const committed = await readCommitted<T>(name);
+    const fallback = committed ? 'using committed snapshot' : 'rendering without a snapshot';
+    console.warn(`[feeds] ${name}: ${fallback} (${reason})`);
+    return committed;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Shared by every page that renders a panel, so a build fetches each feed once.
+let letterboxdSnapshot: Promise<LetterboxdResponse | undefined> | null = null;
+let flickrSnapshot: Promise<FlickrResponse | undefined> | null = null;
+
+export function loadLetterboxdSnapshot(): Promise<LetterboxdResponse | undefined> {
+  letterboxdSnapshot ??= loadSnapshot('letterboxd', fetchLetterboxdFeed);
+  return letterboxdSnapshot;
+}
+
+export function loadFlickrSnapshot(): Promise<FlickrResponse | undefined> {
+  flickrSnapshot ??= loadSnapshot('flickr', signal =>
+    loadFlickrFeed({ FLICKR_API_KEY: process.env.FLICKR_API_KEY }, signal),
+  );
+  return flickrSnapshot;
+}
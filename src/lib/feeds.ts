@@ -0,0 +1,267 @@
+import type { CollectionEntry } from 'astro:content';
+import type { ContentCollection } from '../../functions/_lib/types';
+import { escapeXml } from '../../functions/_lib/xml';
+import { normalizeContentTags } from './contentTags';
+import { renderEntryHtml } from './renderEntry';
+import { entryUrl } from './urls';
+import { getListedEntries } from './visibility';
+
+const SITE_TITLE = 'Saif Khattak';
+const SITE_DESCRIPTION = "Saif Khattak's blog";
+const AUTHOR = 'Saif Khattak';
+
+const COLLECTIONS: ContentCollection[] = ['posts', 'projects', 'demos'];
+
+type AnyEntry = CollectionEntry<ContentCollection>;
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_FILES: Record<FeedFormat, string> = {
+  rss: 'rss.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+};
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+export interface FeedEntry {
+  id: string;
+  url: string;
+  title: string;
+  summary: string | null;
+  date: Date | null;
+  tags: string[];
+  html: string;
+}
+
+export interface FeedScope {
+  /** Path prefix without slashes, e.g. `posts` or `tags/rust`; `undefined` is the site root. */
+  path: string | undefined;
+  title: string;
+  entries: AnyEntry[];
+}
+
+function byDateDesc(a: AnyEntry, b: AnyEntry): number {
+  const aDate = a.data.date?.valueOf() ?? 0;
+  const bDate = b.data.date?.valueOf() ?? 0;
+  if (aDate !== bDate) return bDate - aDate;
+  return a.data.title.localeCompare(b.data.title);
+}
+
+/** The site-wide feed, one per collection, and one per tag. */
+export async function getFeedScopes(): Promise<FeedScope[]> {
+  const byCollection = await Promise.all(COLLECTIONS.map(getListedEntries));
+  const all = byCollection.flat().sort(byDateDesc);
+
+  const scopes: FeedScope[] = [{ path: undefined, title: SITE_TITLE, entries: all }];
+  COLLECTIONS.forEach((collection, index) => {
+    scopes.push({
+      path: collection,
+      title: `${SITE_TITLE} - ${collection}`,
+      entries: byCollection[index].sort(byDateDesc),
+    });
+  });
+
+  const tags = new Map<string, AnyEntry[]>();
+  for (const entry of all) {
+    for (const tag of normalizeContentTags(entry.data.tags)) {
+      tags.set(tag, [...(tags.get(tag) ?? []), entry]);
+    }
+  }
+  for (const [tag, entries] of tags) {
+    scopes.push({ path: `tags/${tag}`, title: `${SITE_TITLE} - #${tag}`, entries });
+  }
+
+  return scopes;
+}
+
+const URL_ATTRIBUTE = /\b(href|src|poster)=(["'])(.*?)\2/gi;
+const SRCSET_ATTRIBUTE = /\bsrcset=(["'])(.*?)\1/gi;
+
+/**
+ * Makes every link and asset in `html` absolute and drops scripts and styles,
+ * which feed readers ignore or strip anyway. Islands keep their server HTML.
+ */
+export function prepareFeedHtml(html: string, baseUrl: string): string {
+  const absolute = (value: string) => {
+    try {
+      return new URL(value, baseUrl).href;
+    } catch {
+      return value;
+    }
+  };
+
+  return html
+    .replace(/<script\b[\s\S]*?<\/script>/gi, '')
+    .replace(/<style\b[\s\S]*?<\/style>/gi, '')
+    .replace(/<\/?astro-(?:island|slot|static-slot)\b[^>]*>/gi, '')
+    .replace(URL_ATTRIBUTE, (_, name: string, quote: string, value: string) =>
+      value.startsWith('mailto:') || value.startsWith('data:')
+        ? `${name}=${quote}${value}${quote}`
+        : `${name}=${quote}${absolute(value)}${quote}`,
+    )
+    .replace(SRCSET_ATTRIBUTE, (_, quote: string, value: string) => {
+      const candidates = value
+        .split(',')
+        .map(candidate => candidate.trim())
+        .filter(Boolean)
+        .map(candidate => {
+          const [url, ...descriptor] = candidate.split(/\s+/);
+          return [absolute(url), ...descriptor].join(' ');
+        });
+      return `srcset=${quote}${candidates.join(', ')}${quote}`;
+    });
+}
+
+async function toFeedEntries(entries: AnyEntry[], site: URL): Promise<FeedEntry[]> {
+  return Promise.all(
+    entries.map(async entry => {
+      const url = new URL(entryUrl(entry), site).href;
+      return {
+        id: url,
+        url,
+        title: entry.data.title,
+        summary: entry.data.subtitle ?? null,
+        date: entry.data.date ?? null,
+        tags: normalizeContentTags(entry.data.tags),
+        html: prepareFeedHtml(await renderEntryHtml(entry), url),
+      };
+    }),
+  );
+}
+
+function scopeUrl(scope: FeedScope, site: URL, file = ''): string {
+  return new URL(`/${scope.path ? `${scope.path}/` : ''}${file}`, site).href;
+}
+
+function latestDate(entries: FeedEntry[]): Date {
+  const times = entries.flatMap(entry => (entry.date ? [entry.date.valueOf()] : []));
+  return new Date(times.length > 0 ? Math.max(...times) : 0);
+}
+
+function renderRss(scope: FeedScope, entries: FeedEntry[], site: URL): string {
+  const items = entries.map(entry =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(entry.title)}</title>`,
+      `      <link>${escapeXml(entry.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(entry.id)}</guid>`,
+      entry.date ? `      <pubDate>${entry.date.toUTCString()}</pubDate>` : null,
+      entry.summary ? `      <description>${escapeXml(entry.summary)}</description>` : null,
+      ...entry.tags.map(tag => `      <category>${escapeXml(tag)}</category>`),
+      `      <content:encoded>${escapeXml(entry.html)}</content:encoded>`,
+      '    </item>',
+    ]
+      .filter(line => line !== null)
+      .join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    '  <channel>',
+    `    <title>${escapeXml(scope.title)}</title>`,
+    `    <link>${escapeXml(scopeUrl(scope, site))}</link>`,
+    `    <description>${escapeXml(SITE_DESCRIPTION)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${latestDate(entries).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(scopeUrl(scope, site, FEED_FILES.rss))}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+function renderAtom(scope: FeedScope, entries: FeedEntry[], site: URL): string {
+  const updated = latestDate(entries).toISOString();
+  const items = entries.map(entry =>
+    [
+      '  <entry>',
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <link href="${escapeXml(entry.url)}" />`,
+      `    <id>${escapeXml(entry.id)}</id>`,
+      `    <updated>${entry.date?.toISOString() ?? updated}</updated>`,
+      entry.date ? `    <published>${entry.date.toISOString()}</published>` : null,
+      entry.summary ? `    <summary>${escapeXml(entry.summary)}</summary>` : null,
+      ...entry.tags.map(tag => `    <category term="${escapeXml(tag)}" />`),
+      `    <content type="html">${escapeXml(entry.html)}</content>`,
+      '  </entry>',
+    ]
+      .filter(line => line !== null)
+      .join('\n'),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(scope.title)}</title>`,
+    `  <subtitle>${escapeXml(SITE_DESCRIPTION)}</subtitle>`,
+    `  <link href="${escapeXml(scopeUrl(scope, site))}" />`,
+    `  <link href="${escapeXml(scopeUrl(scope, site, FEED_FILES.atom))}" rel="self" />`,
+    `  <id>${escapeXml(scopeUrl(scope, site))}</id>`,
+    `  <updated>${updated}</updated>`,
+    `  <author><name>${escapeXml(AUTHOR)}</name></author>`,
+    ...items,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+function renderJsonFeed(scope: FeedScope, entries: FeedEntry[], site: URL): string {
+  return JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: scope.title,
+      description: SITE_DESCRIPTION,
+      home_page_url: scopeUrl(scope, site),
+      feed_url: scopeUrl(scope, site, FEED_FILES.json),
+      language: 'en',
+      authors: [{ name: AUTHOR }],
+      items: entries.map(entry => ({
+        id: entry.id,
+        url: entry.url,
+        title: entry.title,
+        summary: entry.summary ?? undefined,
+        content_html: entry.html,
+        date_published: entry.date?.toISOString(),
+        tags: entry.tags.length > 0 ? entry.tags : undefined,
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+const RENDERERS: Record<
+  FeedFormat,
+  (scope: FeedScope, entries: FeedEntry[], site: URL) => string
+> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
+
+export async function feedResponse(
+  format: FeedFormat,
+  scope: FeedScope,
+  site: URL | undefined,
+): Promise<Response> {
+  if (!site) throw new Error('Set `site` in astro.config.mjs to generate feeds.');
+  const entries = await toFeedEntries(scope.entries, site);
+  return new Response(RENDERERS[format](scope, entries, site), {
+    headers: { 'Content-Type': CONTENT_TYPES[format] },
+  });
+}
+
+/** `getStaticPaths` for a feed route living at `src/pages/[...scope]/<file>`. */
+export async function feedStaticPaths() {
+  return (await getFeedScopes()).map(scope => ({
+    params: { scope: scope.path },
+    props: { scope },
+  }));
+}
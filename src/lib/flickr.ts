@@ -0,0 +1,46 @@
+import type { FlickrExif, FlickrItem } from '../../functions/_lib/types';
+
+export function toFlickrSizedUrl(url: string, size: string): string {
+  return url.replace(/_([a-z0-9]{1,2})(\.[a-z0-9]+)$/i, `_${size}$2`);
+}
+
+/**
+ * Larger renditions of a feed image, best first. The feed only links the
+ * small `_m` size and not every photo has every size, so callers should fall
+ * through the list on load errors.
+ */
+export function flickrImageCandidates(item: FlickrItem): string[] {
+  const source = item.imageUrl;
+  const candidates = [
+    toFlickrSizedUrl(source, 'b'),
+    toFlickrSizedUrl(source, 'c'),
+    toFlickrSizedUrl(source, 'z'),
+    source,
+  ];
+  return candidates.filter((url, index) => candidates.indexOf(url) === index);
+}
+
+const PHOTO_HASH_PREFIX = '#photo=';
+
+export function photoIdFromHash(hash: string): string | null {
+  if (!hash.startsWith(PHOTO_HASH_PREFIX)) return null;
+  try {
+    return decodeURIComponent(hash.slice(PHOTO_HASH_PREFIX.length)) || null;
+  } catch {
+    return null;
+  }
+}
+
+export function photoHash(id: string): string {
+  return `${PHOTO_HASH_PREFIX}${encodeURIComponent(id)}`;
+}
+
+/** Human-readable EXIF fields in the order photographers usually quote them. */
+export function exifSummary(exif: FlickrExif | null): string[] {
+  if (!exif) return [];
+  const exposure = exif.exposure && /^[\d./]+$/.test(exif.exposure) ? `${exif.exposure}s` : exif.exposure;
+  const iso = exif.iso && /^\d+$/.test(exif.iso) ? `ISO ${exif.iso}` : exif.iso;
+  return [exif.camera, exif.lens, exif.focalLength, exposure, exif.aperture, iso].filter(
+    (value): value is string => Boolean(value),
+  );
+}
@@ -0,0 +1,40 @@
+import { join } from 'node:path';
+import type { ImageMetadata } from 'astro';
+import sharp from 'sharp';
+
+const PLACEHOLDER_WIDTH = 24;
+
+const cache = new Map<string, Promise<string | null>>();
+
+/** Every raster image under `src/`, keyed by its built `src`, to find the file it came from. */
+const sourcePaths = new Map(
+  Object.entries(
+    import.meta.glob<ImageMetadata>('/src/**/*.{avif,gif,jpeg,jpg,png,tiff,webp}', {
+      eager: true,
+      import: 'default',
+    }),
+  ).map(([path, image]) => [image.src, join(process.cwd(), path)]),
+);
+
+/**
+ * A tiny blurred WebP of an imported image as a data URI, shown behind the
+ * real image while it loads. `null` for images that don't come from a file
+ * under `src/`, e.g. remote ones.
+ */
+export function imagePlaceholder(image: ImageMetadata): Promise<string | null> {
+  const path = sourcePaths.get(image.src);
+  if (!path) return Promise.resolve(null);
+
+  let placeholder = cache.get(path);
+  if (!placeholder) {
+    placeholder = sharp(path)
+      .resize(PLACEHOLDER_WIDTH)
+      .blur()
+      .webp({ quality: 40 })
+      .toBuffer()
+      .then(buffer => `data:image/webp;base64,${buffer.toString('base64')}`)
+      .catch(() => null);
+    cache.set(path, placeholder);
+  }
+  return placeholder;
+}
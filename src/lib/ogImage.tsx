@@ -0,0 +1,203 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { initWasm, Resvg } from '@resvg/resvg-wasm';
+import satori, { type Font } from 'satori';
+import type { CollectionEntry } from 'astro:content';
+import type { ContentCollection } from '../../functions/_lib/types';
+import { normalizeContentTags } from './contentTags';
+import { entryKey } from './urls';
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+export const SITE_OG_IMAGE = '/og/site.png';
+
+const MAX_TAGS = 4;
+
+// Mirrors the custom properties in src/styles/global.css.
+const palette = {
+  bg: '#090b10',
+  border: '#263149',
+  text: '#dfe7f5',
+  muted: '#8f9bb2',
+  faint: '#6a758f',
+  accent: '#53b7d6',
+  gold: '#e0c045',
+};
+
+const KICKERS: Record<ContentCollection, string> = {
+  posts: 'post',
+  projects: 'project',
+  demos: 'demo',
+};
+
+export interface OgCard {
+  title: string;
+  subtitle?: string | null;
+  kicker?: string | null;
+  date?: Date | null;
+  tags?: string[];
+}
+
+const FONT_FILES: [file: string, name: string, weight: Font['weight']][] = [
+  ['@fontsource/space-grotesk/files/space-grotesk-latin-400-normal.woff', 'Space Grotesk', 400],
+  ['@fontsource/space-grotesk/files/space-grotesk-latin-700-normal.woff', 'Space Grotesk', 700],
+  ['@fontsource/ibm-plex-mono/files/ibm-plex-mono-latin-500-normal.woff', 'IBM Plex Mono', 500],
+];
+
+const require = createRequire(import.meta.url);
+
+function loadFont(file: string, name: string, weight: Font['weight']): Promise<Font> {
+  return readFile(require.resolve(file)).then(data => ({ name, data, weight, style: 'normal' }));
+}
+
+let setup: Promise<Font[]> | null = null;
+
+/** Loads the wasm renderer and the site's fonts from node_modules, once per build. */
+function prepare(): Promise<Font[]> {
+  setup ??= (async () => {
+    await initWasm(readFile(require.resolve('@resvg/resvg-wasm/index_bg.wasm')));
+    return Promise.all(FONT_FILES.map(([file, name, weight]) => loadFont(file, name, weight)));
+  })();
+  return setup;
+}
+
+function titleSize(title: string): number {
+  if (title.length <= 32) return 76;
+  if (title.length <= 60) return 64;
+  return 52;
+}
+
+function Card({ title, subtitle, kicker, date, tags = [] }: OgCard) {
+  const mono = { fontFamily: 'IBM Plex Mono', fontWeight: 500, letterSpacing: '0.08em' };
+  const dateLabel = date?.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        padding: '40px',
+        fontFamily: 'Space Grotesk',
+        color: palette.text,
+        backgroundColor: palette.bg,
+        backgroundImage:
+          'radial-gradient(circle at 8% 2%, rgba(83, 183, 214, 0.18), transparent 45%), ' +
+          'radial-gradient(circle at 92% 12%, rgba(224, 192, 69, 0.16), transparent 50%)',
+      }}
+    >
+      <div
+        style={{
+          flex: 1,
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '48px 56px',
+          border: `1px solid ${palette.border}`,
+          borderRadius: '16px',
+          backgroundColor: 'rgba(18, 24, 38, 0.82)',
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 26, ...mono }}>
+          <div style={{ display: 'flex' }}>
+            <span style={{ color: palette.gold, marginRight: '12px' }}>::</span>
+            <span style={{ textTransform: 'uppercase' }}>saif khattak</span>
+          </div>
+          {kicker ? (
+            <span style={{ color: palette.accent, textTransform: 'uppercase' }}>{kicker}</span>
+          ) : null}
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div
+            style={{
+              fontSize: titleSize(title),
+              fontWeight: 700,
+              lineHeight: 1.1,
+              lineClamp: 3,
+            }}
+          >
+            {title}
+          </div>
+          {subtitle ? (
+            <div
+              style={{
+                marginTop: '22px',
+                fontSize: 32,
+                lineHeight: 1.35,
+                color: palette.muted,
+                lineClamp: 2,
+              }}
+            >
+              {subtitle}
+            </div>
+          ) : null}
+        </div>
+
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            fontSize: 22,
+            color: palette.faint,
+            ...mono,
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center' }}>
+            {dateLabel ? <span style={{ marginRight: '20px' }}>{dateLabel}</span> : null}
+            {tags.slice(0, MAX_TAGS).map(tag => (
+              <span
+                key={tag}
+                style={{
+                  marginRight: '10px',
+                  padding: '4px 12px',
+                  borderRadius: '8px',
+                  border: `1px solid ${palette.border}`,
+                  color: palette.muted,
+                }}
+              >
+                #{tag}
+              </span>
+            ))}
+          </div>
+          <span>skhattak.dev</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Renders a social card PNG with satori (layout to SVG) and resvg (SVG to PNG). */
+export async function renderOgImage(card: OgCard): Promise<Uint8Array> {
+  const fonts = await prepare();
+  const svg = await satori(<Card {...card} />, {
+    width: OG_IMAGE_WIDTH,
+    height: OG_IMAGE_HEIGHT,
+    fonts,
+  });
+  return new Resvg(svg, { fitTo: { mode: 'width', value: OG_IMAGE_WIDTH } }).render().asPng();
+}
+
+export function entryOgCard(entry: CollectionEntry<ContentCollection>): OgCard {
+  return {
+    title: entry.data.title,
+    subtitle: entry.data.subtitle,
+    kicker: KICKERS[entry.collection],
+    date: entry.data.date,
+    tags: normalizeContentTags(entry.data.tags),
+  };
+}
+
+export function entryOgImagePath(entry: CollectionEntry<ContentCollection>): string {
+  return `/og/${entryKey(entry)}.png`;
+}
+
+export function ogImageResponse(png: Uint8Array): Response {
+  return new Response(new Uint8Array(png), { headers: { 'Content-Type': 'image/png' } });
+}
@@ -0,0 +1,178 @@
+import type { CollectionEntry } from 'astro:content';
+import { htmlToText } from '../../functions/_lib/html';
+import type { ContentCollection } from '../../functions/_lib/types';
+import { normalizeContentTags } from './contentTags';
+import { renderEntryHtml } from './renderEntry';
+import { entryKey, entryUrl } from './urls';
+import { getListedEntries } from './visibility';
+
+type AnyEntry = CollectionEntry<ContentCollection>;
+
+const COLLECTIONS: ContentCollection[] = ['posts', 'projects', 'demos'];
+const MAX_RELATED = 3;
+const TAG_WEIGHT = 0.4;
+const TEXT_WEIGHT = 0.6;
+const MIN_SCORE = 0.01;
+
+const STOPWORDS = new Set(
+  (
+    'about after again also among and any are because been before being between both but can ' +
+    'could did does doing down each even every few for from further get got had has have here ' +
+    'how into its itself just like more most much must not now off once only other our out over ' +
+    'own same should since some such than that the their them then there these they this those ' +
+    'through too under until very was way well were what when where which while who why will ' +
+    'with would you your one two first second use used using make makes made really thing things'
+  ).split(' '),
+);
+
+export interface RelatedEntry {
+  /** `<collection>/<slug>`, the same form `related` frontmatter uses. */
+  key: string;
+  collection: ContentCollection;
+  title: string;
+  subtitle: string | null;
+  url: string;
+  score: number;
+}
+
+interface Document {
+  entry: AnyEntry;
+  key: string;
+  url: string;
+  tags: Set<string>;
+  vector: Map<string, number>;
+}
+
+/** Elements whose content is left out of an entry's text: code blocks and KaTeX markup. */
+const NON_PROSE = ['script', 'style', 'pre', 'annotation', 'math'];
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z0-9+#-]{2,}/g) ?? []).filter(
+    token => !STOPWORDS.has(token),
+  );
+}
+
+function termFrequencies(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+  for (const [term, count] of counts) counts.set(term, count / tokens.length);
+  return counts;
+}
+
+/** Turns term frequencies into unit-length TF-IDF vectors, in place. */
+function weightByIdf(documents: Map<string, number>[]): void {
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  for (const terms of documents) {
+    let norm = 0;
+    for (const [term, tf] of terms) {
+      const idf = Math.log((documents.length + 1) / ((documentFrequency.get(term) ?? 0) + 1));
+      const weight = tf * idf;
+      terms.set(term, weight);
+      norm += weight * weight;
+    }
+    norm = Math.sqrt(norm);
+    for (const [term, weight] of terms) terms.set(term, norm > 0 ? weight / norm : 0);
+  }
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of small) dot += weight * (large.get(term) ?? 0);
+  return dot;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const tag of a) if (b.has(tag)) shared += 1;
+  return shared / (a.size + b.size - shared);
+}
+
+function toRelated(document: Document, score: number): RelatedEntry {
+  return {
+    key: document.key,
+    collection: document.entry.collection,
+    title: document.entry.data.title,
+    subtitle: document.entry.data.subtitle ?? null,
+    url: document.url,
+    score,
+  };
+}
+
+async function buildDocuments(): Promise<Document[]> {
+  const entries = (await Promise.all(COLLECTIONS.map(getListedEntries))).flat();
+
+  const documents = await Promise.all(
+    entries.map(async entry => {
+      const text = [
+        entry.data.title,
+        entry.data.subtitle ?? '',
+        htmlToText(await renderEntryHtml(entry), NON_PROSE),
+      ].join(' ');
+      return {
+        entry,
+        key: entryKey(entry),
+        url: entryUrl(entry),
+        tags: new Set(normalizeContentTags(entry.data.tags)),
+        vector: termFrequencies(tokenize(text)),
+      };
+    }),
+  );
+  weightByIdf(documents.map(document => document.vector));
+  return documents;
+}
+
+function relatedFor(document: Document, documents: Document[]): RelatedEntry[] {
+  const byKey = new Map(documents.map(candidate => [candidate.key, candidate]));
+  const pinned = (document.entry.data.related ?? []).map(key => {
+    const target = byKey.get(key);
+    if (!target) {
+      throw new Error(
+        `${document.key}: related entry "${key}" does not exist or is not published. ` +
+          'Use the `<collection>/<slug>` form, e.g. "projects/rv32i-core".',
+      );
+    }
+    return toRelated(target, 1);
+  });
+
+  const pinnedKeys = new Set([document.key, ...pinned.map(entry => entry.key)]);
+  const scored = documents
+    .filter(candidate => !pinnedKeys.has(candidate.key))
+    .map(candidate =>
+      toRelated(
+        candidate,
+        TAG_WEIGHT * jaccard(document.tags, candidate.tags) +
+          TEXT_WEIGHT * cosine(document.vector, candidate.vector),
+      ),
+    )
+    .filter(candidate => candidate.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title));
+
+  return [...pinned, ...scored].slice(0, Math.max(MAX_RELATED, pinned.length));
+}
+
+let relatedIndex: Promise<Map<string, RelatedEntry[]>> | null = null;
+
+/**
+ * Recommendations for every published entry: pinned `related` frontmatter
+ * first, then the best matches on shared tags and TF-IDF similarity of the
+ * rendered text.
+ */
+function getRelatedIndex(): Promise<Map<string, RelatedEntry[]>> {
+  relatedIndex ??= buildDocuments().then(
+    documents =>
+      new Map(documents.map(document => [document.key, relatedFor(document, documents)])),
+  );
+  return relatedIndex;
+}
+
+export async function getRelatedEntries(entry: AnyEntry): Promise<RelatedEntry[]> {
+  return (await getRelatedIndex()).get(entryKey(entry)) ?? [];
+}
@@ -0,0 +1,68 @@
+/**
+ * Turns raw `<img src="./photo.png">` tags in MDX into Markdown image nodes,
+ * so Astro imports and optimizes them like `![](./photo.png)` instead of
+ * serving the file as-is. `alt` and `title` become the image's own fields;
+ * `style` and `class` are passed on to the `img` component.
+ */
+
+interface JsxAttribute {
+  type: string;
+  name?: string;
+  value?: unknown;
+}
+
+interface Node {
+  type: string;
+  name?: string | null;
+  attributes?: JsxAttribute[];
+  children?: Node[];
+  [key: string]: unknown;
+}
+
+const PASSED_ATTRIBUTES = new Set(['style', 'class']);
+
+function isLocalPath(src: string): boolean {
+  return !src.startsWith('/') && !src.startsWith('#') && !/^[a-z][a-z0-9+.-]*:/i.test(src);
+}
+
+function toImage(node: Node): Node | null {
+  if (node.name !== 'img') return null;
+  const attributes = node.attributes ?? [];
+  const literal = new Map<string, string>();
+  for (const attribute of attributes) {
+    // Spreads and `{expression}` values can't be resolved at this stage; leave the tag alone.
+    if (attribute.type !== 'mdxJsxAttribute' || !attribute.name) return null;
+    if (attribute.value !== null && typeof attribute.value !== 'string') return null;
+    literal.set(attribute.name, attribute.value ?? '');
+  }
+
+  const src = literal.get('src');
+  if (!src || !isLocalPath(src)) return null;
+
+  const hProperties = Object.fromEntries(
+    [...literal].filter(([name]) => PASSED_ATTRIBUTES.has(name)),
+  );
+  return {
+    type: 'image',
+    url: src,
+    alt: literal.get('alt') ?? '',
+    title: literal.get('title') ?? null,
+    data: { hProperties },
+  };
+}
+
+function transform(node: Node): void {
+  if (!node.children) return;
+  node.children = node.children.map(child => {
+    if (child.type === 'mdxJsxFlowElement' || child.type === 'mdxJsxTextElement') {
+      const image = toImage(child);
+      if (image) return image;
+    }
+    transform(child);
+    return child;
+  });
+}
+
+export default function remarkContentImages() {
+  return (tree: Node) => transform(tree);
+}
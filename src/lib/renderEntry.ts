@@ -0,0 +1,36 @@
+import mdxRenderer from '@astrojs/mdx/server.js';
+import reactRenderer from '@astrojs/react/server.js';
+import { experimental_AstroContainer as AstroContainer } from 'astro/container';
+import { render, type CollectionEntry } from 'astro:content';
+import type { ContentCollection } from '../../functions/_lib/types';
+
+let containerPromise: Promise<AstroContainer> | null = null;
+const renderedHtml = new Map<string, Promise<string>>();
+
+function getContainer(): Promise<AstroContainer> {
+  containerPromise ??= AstroContainer.create().then(container => {
+    container.addServerRenderer({ name: 'astro:jsx', renderer: mdxRenderer });
+    container.addServerRenderer({ name: '@astrojs/react', renderer: reactRenderer });
+    container.addClientRenderer({ name: '@astrojs/react', entrypoint: '@astrojs/react/client.js' });
+    return container;
+  });
+  return containerPromise;
+}
+
+/**
+ * Renders an entry's body to an HTML string outside of a page, for feeds and
+ * other build-time consumers. Each entry is only rendered once per build.
+ */
+export function renderEntryHtml(entry: CollectionEntry<ContentCollection>): Promise<string> {
+  const key = `${entry.collection}:${entry.id}`;
+  let html = renderedHtml.get(key);
+  if (!html) {
+    html = (async () => {
+      const container = await getContainer();
+      const { Content } = await render(entry);
+      return container.renderToString(Content);
+    })();
+    renderedHtml.set(key, html);
+  }
+  return html;
+}
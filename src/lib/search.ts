@@ -0,0 +1,57 @@
+import type { ContentCollection } from '../../functions/_lib/types';
+
+/**
+ * Shapes and tokenizer shared by the build-time index (`searchIndex.ts`) and
+ * the browser (`searchClient.ts`). Anything that changes how terms are split
+ * or sharded must stay identical on both sides.
+ */
+
+export const SEARCH_BASE = '/search';
+
+/** One searchable section: an entry's intro, or everything under one heading. */
+export interface SearchDocument {
+  url: string;
+  /** Heading id to deep link to, `null` for the text before the first heading. */
+  anchor: string | null;
+  title: string;
+  heading: string | null;
+  collection: ContentCollection;
+}
+
+export interface SearchManifest {
+  documents: SearchDocument[];
+  /** Term shard keys that exist, see `shardKeyOf`. */
+  shards: string[];
+  /** Documents per text chunk; document `i` lives in chunk `floor(i / textChunkSize)`. */
+  textChunkSize: number;
+}
+
+/** term -> `[documentIndex, weight]` postings, heaviest first. */
+export type SearchShard = Record<string, [number, number][]>;
+
+/** Plain section text, indexed the same as `SearchManifest.documents`. */
+export type SearchTextChunk = string[];
+
+export function tokenizeSearchText(text: string): string[] {
+  return (
+    text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .match(/[a-z0-9]+/g) ?? []
+  ).filter(token => token.length > 1 || /\d/.test(token));
+}
+
+/** Terms are sharded by their first character so a query loads one or two small files. */
+export function shardKeyOf(term: string): string {
+  const first = term[0];
+  return first >= 'a' && first <= 'z' ? first : '0';
+}
+
+export function shardUrl(key: string): string {
+  return `${SEARCH_BASE}/terms/${key}.json`;
+}
+
+export function textChunkUrl(chunk: number): string {
+  return `${SEARCH_BASE}/text/${chunk}.json`;
+}
@@ -0,0 +1,151 @@
+import {
+  SEARCH_BASE,
+  shardKeyOf,
+  shardUrl,
+  textChunkUrl,
+  tokenizeSearchText,
+  type SearchDocument,
+  type SearchManifest,
+  type SearchShard,
+  type SearchTextChunk,
+} from './search';
+
+const DEFAULT_LIMIT = 10;
+/** Prefix matches on the word still being typed count for less than exact ones. */
+const PREFIX_FACTOR = 0.6;
+const SNIPPET_LENGTH = 180;
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  /** Entry URL with the section's heading anchor, if it has one. */
+  href: string;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+const requests = new Map<string, Promise<unknown>>();
+
+function loadJson<T>(url: string): Promise<T> {
+  let request = requests.get(url);
+  if (!request) {
+    request = fetch(url).then(response => {
+      if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+      return response.json();
+    });
+    // Let a failed shard be retried by the next query.
+    request.catch(() => requests.delete(url));
+    requests.set(url, request);
+  }
+  return request as Promise<T>;
+}
+
+export function loadSearchManifest(): Promise<SearchManifest> {
+  return loadJson<SearchManifest>(`${SEARCH_BASE}/manifest.json`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** A window of `text` around the first hit, split into highlighted and plain runs. */
+export function buildSnippet(text: string, tokens: string[]): SnippetPart[] {
+  const pattern = new RegExp(`\\b(?:${tokens.map(escapeRegExp).join('|')})[a-z0-9]*`, 'gi');
+  const first = text.search(pattern);
+
+  let start = first > SNIPPET_LENGTH / 3 ? first - Math.floor(SNIPPET_LENGTH / 3) : 0;
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const window = text.slice(start, end);
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+  let cursor = 0;
+  for (const hit of window.matchAll(pattern)) {
+    const index = hit.index ?? 0;
+    if (index > cursor) parts.push({ text: window.slice(cursor, index), match: false });
+    parts.push({ text: hit[0], match: true });
+    cursor = index + hit[0].length;
+  }
+  if (cursor < window.length) parts.push({ text: window.slice(cursor), match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+}
+
+function matchingPostings(shard: SearchShard, token: string, prefix: boolean) {
+  if (!prefix) {
+    return Object.prototype.hasOwnProperty.call(shard, token)
+      ? [{ postings: shard[token], factor: 1 }]
+      : [];
+  }
+  return Object.entries(shard)
+    .filter(([term]) => term.startsWith(token))
+    .map(([term, postings]) => ({ postings, factor: term === token ? 1 : PREFIX_FACTOR }));
+}
+
+/**
+ * Ranks sections against `query` using the prebuilt BM25 weights. Sections
+ * matching every query word come first; the last word also matches as a
+ * prefix so results update while typing.
+ */
+export async function searchSite(query: string, limit = DEFAULT_LIMIT): Promise<SearchResult[]> {
+  const tokens = [...new Set(tokenizeSearchText(query))];
+  if (tokens.length === 0) return [];
+
+  const manifest = await loadSearchManifest();
+  const available = new Set(manifest.shards);
+  const shardKeys = [...new Set(tokens.map(shardKeyOf))].filter(key => available.has(key));
+  const shards = new Map(
+    await Promise.all(
+      shardKeys.map(async key => [key, await loadJson<SearchShard>(shardUrl(key))] as const),
+    ),
+  );
+
+  const scores = new Map<number, { score: number; matched: number }>();
+  tokens.forEach((token, index) => {
+    const shard = shards.get(shardKeyOf(token));
+    if (!shard) return;
+
+    const best = new Map<number, number>();
+    const prefix = index === tokens.length - 1;
+    for (const { postings, factor } of matchingPostings(shard, token, prefix)) {
+      for (const [document, weight] of postings) {
+        best.set(document, Math.max(best.get(document) ?? 0, weight * factor));
+      }
+    }
+    for (const [document, weight] of best) {
+      const current = scores.get(document) ?? { score: 0, matched: 0 };
+      current.score += weight;
+      current.matched += 1;
+      scores.set(document, current);
+    }
+  });
+
+  const ranked = [...scores]
+    .sort(([, a], [, b]) => b.matched - a.matched || b.score - a.score)
+    .slice(0, limit);
+
+  const chunkOf = (document: number) => Math.floor(document / manifest.textChunkSize);
+  const chunks = new Map(
+    await Promise.all(
+      [...new Set(ranked.map(([document]) => chunkOf(document)))].map(
+        async chunk => [chunk, await loadJson<SearchTextChunk>(textChunkUrl(chunk))] as const,
+      ),
+    ),
+  );
+
+  return ranked.map(([index, { score }]) => {
+    const document = manifest.documents[index];
+    const text = chunks.get(chunkOf(index))?.[index % manifest.textChunkSize] ?? '';
+    return {
+      document,
+      href: document.anchor ? `${document.url}#${document.anchor}` : document.url,
+      score,
+      snippet: buildSnippet(text, tokens),
+    };
+  });
+}
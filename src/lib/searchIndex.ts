@@ -0,0 +1,171 @@
+import type { CollectionEntry } from 'astro:content';
+import { htmlToText } from '../../functions/_lib/html';
+import type { ContentCollection } from '../../functions/_lib/types';
+import { renderEntryHtml } from './renderEntry';
+import {
+  shardKeyOf,
+  tokenizeSearchText,
+  type SearchDocument,
+  type SearchManifest,
+  type SearchShard,
+  type SearchTextChunk,
+} from './search';
+import { entryUrl } from './urls';
+import { getListedEntries } from './visibility';
+
+type AnyEntry = CollectionEntry<ContentCollection>;
+
+const COLLECTIONS: ContentCollection[] = ['posts', 'projects', 'demos'];
+const TEXT_CHUNK_SIZE = 24;
+const MAX_TEXT_LENGTH = 4000;
+
+const TITLE_BOOST = 4;
+const HEADING_BOOST = 2.5;
+const TEXT_BOOST = 1;
+const CODE_BOOST = 0.5;
+
+// BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+const HEADING = /<h([23])\b[^>]*\bid="([^"]+)"[^>]*>([\s\S]*?)<\/h\1>/gi;
+
+interface Section {
+  document: SearchDocument;
+  text: string;
+  code: string;
+}
+
+export interface SearchIndex {
+  manifest: SearchManifest;
+  shards: Map<string, SearchShard>;
+  textChunks: SearchTextChunk[];
+}
+
+/** Splits rendered HTML into the intro plus one section per `h2`/`h3` with an id. */
+function splitSections(entry: AnyEntry, html: string): Section[] {
+  const cleaned = html
+    .replace(/<(script|style|math)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<\/?astro-(?:island|slot|static-slot)\b[^>]*>/gi, '');
+  const base = { url: entryUrl(entry), title: entry.data.title, collection: entry.collection };
+
+  // split() with capture groups yields [intro, level, id, heading, body, level, id, ...].
+  const parts = cleaned.split(HEADING);
+  const raw = [{ anchor: null as string | null, heading: null as string | null, body: parts[0] }];
+  for (let i = 1; i < parts.length; i += 4) {
+    raw.push({ anchor: parts[i + 1], heading: htmlToText(parts[i + 2]), body: parts[i + 3] });
+  }
+
+  return raw
+    .map(({ anchor, heading, body }) => {
+      const code: string[] = [];
+      const prose = body.replace(/<pre\b[\s\S]*?<\/pre>/gi, block => {
+        code.push(htmlToText(block));
+        return ' ';
+      });
+      const intro = anchor === null ? (entry.data.subtitle ?? '') : '';
+      return {
+        document: { ...base, anchor, heading },
+        text: `${intro} ${htmlToText(prose)}`.trim().slice(0, MAX_TEXT_LENGTH),
+        code: code.join(' '),
+      };
+    })
+    .filter(section => section.document.anchor === null || section.text || section.code);
+}
+
+function addTerms(counts: Map<string, number>, text: string, boost: number): number {
+  const tokens = tokenizeSearchText(text);
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + boost);
+  return tokens.length;
+}
+
+async function buildSearchIndex(): Promise<SearchIndex> {
+  const entries = (await Promise.all(COLLECTIONS.map(getListedEntries)))
+    .flat()
+    .sort((a, b) => a.collection.localeCompare(b.collection) || a.id.localeCompare(b.id));
+
+  const sections = (
+    await Promise.all(
+      entries.map(async entry => splitSections(entry, await renderEntryHtml(entry))),
+    )
+  ).flat();
+
+  const termCounts = sections.map(section => {
+    const counts = new Map<string, number>();
+    let length = 0;
+    if (section.document.anchor === null) {
+      length += addTerms(counts, section.document.title, TITLE_BOOST);
+    }
+    length += addTerms(counts, section.document.heading ?? '', HEADING_BOOST);
+    length += addTerms(counts, section.text, TEXT_BOOST);
+    length += addTerms(counts, section.code, CODE_BOOST);
+    return { counts, length };
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const { counts } of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const total = sections.length;
+  const averageLength = termCounts.reduce((sum, { length }) => sum + length, 0) / (total || 1);
+  const shards = new Map<string, SearchShard>();
+
+  termCounts.forEach(({ counts, length }, documentIndex) => {
+    const lengthNorm = 1 - B + (B * length) / (averageLength || 1);
+    for (const [term, tf] of counts) {
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      const weight = Math.round(((idf * tf * (K1 + 1)) / (tf + K1 * lengthNorm)) * 100) / 100;
+      if (weight <= 0) continue;
+
+      const key = shardKeyOf(term);
+      let shard = shards.get(key);
+      if (!shard) {
+        // No prototype, so terms like `constructor` don't resolve to inherited members.
+        shard = Object.create(null) as SearchShard;
+        shards.set(key, shard);
+      }
+      (shard[term] ??= []).push([documentIndex, weight]);
+    }
+  });
+
+  for (const shard of shards.values()) {
+    for (const postings of Object.values(shard)) postings.sort((a, b) => b[1] - a[1]);
+  }
+
+  const textChunks: SearchTextChunk[] = [];
+  for (let start = 0; start < total; start += TEXT_CHUNK_SIZE) {
+    textChunks.push(sections.slice(start, start + TEXT_CHUNK_SIZE).map(section => section.text));
+  }
+
+  return {
+    manifest: {
+      documents: sections.map(section => section.document),
+      shards: [...shards.keys()].sort(),
+      textChunkSize: TEXT_CHUNK_SIZE,
+    },
+    shards,
+    textChunks,
+  };
+}
+
+let searchIndex: Promise<SearchIndex> | null = null;
+
+/**
+ * The site search index: a manifest of sections, term postings sharded by
+ * first character and section text for snippets, all emitted as static JSON
+ * under `/search/` so the browser only fetches what a query touches.
+ */
+export function getSearchIndex(): Promise<SearchIndex> {
+  searchIndex ??= buildSearchIndex();
+  return searchIndex;
+}
+
+export function searchJson(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
+}
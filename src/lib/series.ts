@@ -0,0 +1,102 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { entrySlug, entryUrl, seriesUrl } from './urls';
+import { isListed } from './visibility';
+
+type Post = CollectionEntry<'posts'>;
+
+export interface SeriesPart {
+  order: number;
+  slug: string;
+  title: string;
+  url: string;
+}
+
+export interface Series {
+  id: string;
+  title: string;
+  url: string;
+  parts: SeriesPart[];
+}
+
+/** Where one post sits within its series, as the navigator needs it. */
+export interface SeriesPosition {
+  series: Series;
+  index: number;
+  previous: SeriesPart | null;
+  next: SeriesPart | null;
+}
+
+function seriesTitle(id: string): string {
+  const words = id.split('-').filter(Boolean);
+  return words.map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Throws unless the parts are numbered 1..n with no repeats, so a typo in
+ * frontmatter fails the build instead of shipping a broken navigator.
+ */
+export function validateSeries(id: string, parts: SeriesPart[]): void {
+  const seen = new Map<number, string>();
+  for (const part of parts) {
+    const clash = seen.get(part.order);
+    if (clash) {
+      throw new Error(
+        `Series "${id}": "${clash}" and "${part.slug}" both have order ${part.order}.`,
+      );
+    }
+    seen.set(part.order, part.slug);
+  }
+
+  const missing = parts.map((_, index) => index + 1).filter(order => !seen.has(order));
+  if (missing.length > 0) {
+    const orders = [...seen.keys()].sort((a, b) => a - b).join(', ');
+    throw new Error(
+      `Series "${id}" must be numbered 1 to ${parts.length} without gaps; found ${orders}.`,
+    );
+  }
+}
+
+/**
+ * Every series with at least one published post, ordered. Numbering is
+ * validated against all posts, so a draft or scheduled part doesn't leave a
+ * gap, but only published parts are listed and linked. Pages number parts by
+ * their position in `parts`, so hidden parts don't show up as skipped numbers.
+ */
+export async function getAllSeries(): Promise<Series[]> {
+  const byId = new Map<string, { parts: SeriesPart[]; listed: Set<string> }>();
+  for (const post of await getCollection('posts')) {
+    const { series, title } = post.data;
+    if (!series) continue;
+    const group = byId.get(series.id) ?? { parts: [], listed: new Set<string>() };
+    const slug = entrySlug(post);
+    group.parts.push({ order: series.order, slug, title, url: entryUrl(post) });
+    if (isListed(post)) group.listed.add(slug);
+    byId.set(series.id, group);
+  }
+
+  for (const [id, { parts }] of byId) validateSeries(id, parts);
+
+  return [...byId.entries()]
+    .filter(([, { listed }]) => listed.size > 0)
+    .map(([id, { parts, listed }]) => ({
+      id,
+      title: seriesTitle(id),
+      url: seriesUrl(id),
+      parts: parts.filter(part => listed.has(part.slug)).sort((a, b) => a.order - b.order),
+    }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export async function getSeriesPosition(post: Post): Promise<SeriesPosition | null> {
+  const id = post.data.series?.id;
+  if (!id || !isListed(post)) return null;
+  const series = (await getAllSeries()).find(candidate => candidate.id === id);
+  if (!series) return null;
+  const index = series.parts.findIndex(part => part.slug === entrySlug(post));
+  return {
+    series,
+    index,
+    previous: series.parts[index - 1] ?? null,
+    next: series.parts[index + 1] ?? null,
+  };
+}
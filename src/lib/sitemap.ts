@@ -0,0 +1,119 @@
+import { execFileSync } from 'node:child_process';
+import type { CollectionEntry } from 'astro:content';
+import type { ContentCollection } from '../../functions/_lib/types';
+import { escapeXml } from '../../functions/_lib/xml';
+import { normalizeContentTags } from './contentTags';
+import { getAllSeries } from './series';
+import { collectionUrl, entryUrl, seriesUrl, tagUrl } from './urls';
+import { getListedEntries } from './visibility';
+
+type AnyEntry = CollectionEntry<ContentCollection>;
+
+const COLLECTIONS: ContentCollection[] = ['posts', 'projects', 'demos'];
+
+export interface SitemapUrl {
+  /** Site-relative path with a trailing slash. */
+  path: string;
+  lastmod: Date | null;
+}
+
+const commitDates = new Map<string, Date | null>();
+
+/** Date of the last commit touching `path`, or `null` outside a git checkout. */
+function lastCommitDate(path: string): Date | null {
+  if (!commitDates.has(path)) {
+    let date: Date | null = null;
+    try {
+      const output = execFileSync('git', ['log', '-1', '--format=%cI', '--', path], {
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'ignore'],
+      }).trim();
+      date = output ? new Date(output) : null;
+    } catch {
+      date = null;
+    }
+    commitDates.set(path, date);
+  }
+  return commitDates.get(path) ?? null;
+}
+
+/** Frontmatter `updated`, then the entry's last commit, then its `date`. */
+export function entryLastModified(entry: AnyEntry): Date | null {
+  if (entry.data.updated) return entry.data.updated;
+  const fromGit = entry.filePath ? lastCommitDate(entry.filePath) : null;
+  return fromGit ?? entry.data.date ?? null;
+}
+
+function newest(dates: (Date | null)[]): Date | null {
+  const times = dates.flatMap(date => (date ? [date.valueOf()] : []));
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+/**
+ * Every public page worth indexing: entries, their listings, tag and series
+ * pages. Only published entries count, and listings take the newest `lastmod` of the
+ * entries they show.
+ */
+export async function getSitemapUrls(): Promise<SitemapUrl[]> {
+  const byCollection = await Promise.all(COLLECTIONS.map(getListedEntries));
+  const entries = byCollection.flat();
+  const lastmod = new Map(entries.map(entry => [entryUrl(entry), entryLastModified(entry)]));
+  const lastmodOf = (entry: AnyEntry) => lastmod.get(entryUrl(entry)) ?? null;
+
+  const urls: SitemapUrl[] = [
+    { path: '/', lastmod: newest([...lastmod.values()]) },
+    { path: '/media/', lastmod: null },
+  ];
+
+  COLLECTIONS.forEach((collection, index) => {
+    urls.push({
+      path: collectionUrl(collection),
+      lastmod: newest(byCollection[index].map(lastmodOf)),
+    });
+  });
+
+  for (const entry of entries) {
+    urls.push({ path: entryUrl(entry), lastmod: lastmodOf(entry) });
+  }
+
+  const tags = new Map<string, (Date | null)[]>();
+  for (const entry of entries) {
+    for (const tag of normalizeContentTags(entry.data.tags)) {
+      tags.set(tag, [...(tags.get(tag) ?? []), lastmodOf(entry)]);
+    }
+  }
+  if (tags.size > 0) {
+    urls.push({ path: '/tags/', lastmod: newest([...tags.values()].flat()) });
+  }
+  for (const [tag, dates] of [...tags].sort(([a], [b]) => a.localeCompare(b))) {
+    urls.push({ path: tagUrl(tag), lastmod: newest(dates) });
+  }
+
+  for (const series of await getAllSeries()) {
+    urls.push({
+      path: seriesUrl(series.id),
+      lastmod: newest(series.parts.map(part => lastmod.get(part.url) ?? null)),
+    });
+  }
+
+  return urls;
+}
+
+export function renderSitemap(urls: SitemapUrl[], site: URL): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map(url =>
+      [
+        '  <url>',
+        `    <loc>${escapeXml(new URL(url.path, site).href)}</loc>`,
+        url.lastmod ? `    <lastmod>${url.lastmod.toISOString().slice(0, 10)}</lastmod>` : null,
+        '  </url>',
+      ]
+        .filter(line => line !== null)
+        .join('\n'),
+    ),
+    '</urlset>',
+    '',
+  ].join('\n');
+}
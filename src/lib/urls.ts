@@ -0,0 +1,44 @@
+import type { ContentCollection } from '../../functions/_lib/types';
+
+/**
+ * The one place routes are spelled out. Pages, listings, feeds, the sitemap
+ * and the search index all build links through these helpers, so changing a
+ * route shape only happens here and in the matching file under `src/pages/`.
+ */
+
+interface EntryRef {
+  id: string;
+  collection: ContentCollection;
+}
+
+/** `psp-neural-networks/index` -> `psp-neural-networks`; flat files keep their id. */
+export function entrySlug(entry: Pick<EntryRef, 'id'>): string {
+  return entry.id.includes('/') ? entry.id.split('/')[0] : entry.id;
+}
+
+/** `<collection>/<slug>`, the form `related` frontmatter uses. */
+export function entryKey(entry: EntryRef): string {
+  return `${entry.collection}/${entrySlug(entry)}`;
+}
+
+export function entryUrl(entry: EntryRef): string {
+  return `/${entry.collection}/${entrySlug(entry)}/`;
+}
+
+export function collectionUrl(collection: ContentCollection): string {
+  return `/${collection}/`;
+}
+
+export function tagUrl(tag: string): string {
+  return `/tags/${tag}/`;
+}
+
+export function seriesUrl(id: string): string {
+  return `/series/${id}/`;
+}
+
+/** Absolute URL for a page, with the trailing slash the static build serves it under. */
+export function canonicalUrl(pathname: string, site: URL): string {
+  const path = /\.[a-z0-9]+$/i.test(pathname) || pathname.endsWith('/') ? pathname : `${pathname}/`;
+  return new URL(path, site).href;
+}
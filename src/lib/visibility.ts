@@ -0,0 +1,50 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import type { ContentCollection } from '../../functions/_lib/types';
+
+type AnyEntry = CollectionEntry<ContentCollection>;
+
+/**
+ * - `published`: routed and listed everywhere
+ * - `unlisted`: routed, but kept out of listings, feeds, search and the sitemap
+ * - `scheduled`: dated in the future; goes live with the first build after its `date`
+ * - `draft`: `draft: true` in frontmatter
+ */
+export type Visibility = 'published' | 'unlisted' | 'scheduled' | 'draft';
+
+/**
+ * Preview builds also route drafts and scheduled entries, behind a banner:
+ * always under `astro dev`, and in `astro build` when `PREVIEW_DRAFTS` is set.
+ */
+export const PREVIEW_MODE = import.meta.env.DEV || Boolean(process.env.PREVIEW_DRAFTS);
+
+const BUILD_TIME = new Date();
+
+export function entryVisibility(entry: AnyEntry, now: Date = BUILD_TIME): Visibility {
+  if (entry.data.draft) return 'draft';
+  if (entry.data.date && entry.data.date > now) return 'scheduled';
+  if (entry.data.unlisted) return 'unlisted';
+  return 'published';
+}
+
+/** Whether the entry gets a page in this build. */
+export function isRoutable(entry: AnyEntry): boolean {
+  const visibility = entryVisibility(entry);
+  return visibility === 'published' || visibility === 'unlisted' || PREVIEW_MODE;
+}
+
+/** Whether the entry appears in listings, feeds, search, the sitemap and other indexes. */
+export function isListed(entry: AnyEntry): boolean {
+  return entryVisibility(entry) === 'published';
+}
+
+export function getRoutableEntries<C extends ContentCollection>(
+  collection: C,
+): Promise<CollectionEntry<C>[]> {
+  return getCollection(collection, entry => isRoutable(entry as AnyEntry));
+}
+
+export function getListedEntries<C extends ContentCollection>(
+  collection: C,
+): Promise<CollectionEntry<C>[]> {
+  return getCollection(collection, entry => isListed(entry as AnyEntry));
+}
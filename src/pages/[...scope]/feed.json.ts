@@ -0,0 +1,7 @@
+import type { APIRoute } from 'astro';
+import { feedResponse, feedStaticPaths, type FeedScope } from '../../lib/feeds';
+
+export const getStaticPaths = feedStaticPaths;
+
+export const GET: APIRoute<{ scope: FeedScope }> = ({ props, site }) =>
+  feedResponse('json', props.scope, site);
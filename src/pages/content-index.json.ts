@@ -0,0 +1,7 @@
+import type { APIRoute } from 'astro';
+import { buildContentIndex } from '../lib/contentIndex';
+
+export const GET: APIRoute = async () =>
+  new Response(JSON.stringify(await buildContentIndex()), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
@@ -0,0 +1,19 @@
+import type { APIRoute } from 'astro';
+import type { CollectionEntry } from 'astro:content';
+import type { ContentCollection } from '../../../../functions/_lib/types';
+import { entryOgCard, ogImageResponse, renderOgImage } from '../../../lib/ogImage';
+import { entrySlug } from '../../../lib/urls';
+import { getRoutableEntries } from '../../../lib/visibility';
+
+const COLLECTIONS: ContentCollection[] = ['posts', 'projects', 'demos'];
+
+export async function getStaticPaths() {
+  const entries = await Promise.all(COLLECTIONS.map(getRoutableEntries));
+  return entries.flat().map(entry => ({
+    params: { collection: entry.collection, slug: entrySlug(entry) },
+    props: { entry },
+  }));
+}
+
+export const GET: APIRoute<{ entry: CollectionEntry<ContentCollection> }> = async ({ props }) =>
+  ogImageResponse(await renderOgImage(entryOgCard(props.entry)));
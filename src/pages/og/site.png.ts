@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { ogImageResponse, renderOgImage } from '../../lib/ogImage';
+
+export const GET: APIRoute = async () =>
+  ogImageResponse(
+    await renderOgImage({
+      title: 'Saif Khattak',
+      subtitle: 'Posts, projects and interactive demos on systems, graphics and machine learning.',
+    }),
+  );
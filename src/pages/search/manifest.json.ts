@@ -0,0 +1,4 @@
+import type { APIRoute } from 'astro';
+import { getSearchIndex, searchJson } from '../../lib/searchIndex';
+
+export const GET: APIRoute = async () => searchJson((await getSearchIndex()).manifest);
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import type { SearchShard } from '../../../lib/search';
+import { getSearchIndex, searchJson } from '../../../lib/searchIndex';
+
+export async function getStaticPaths() {
+  const { shards } = await getSearchIndex();
+  return [...shards].map(([shard, terms]) => ({ params: { shard }, props: { terms } }));
+}
+
+export const GET: APIRoute<{ terms: SearchShard }> = ({ props }) => searchJson(props.terms);
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import type { SearchTextChunk } from '../../../lib/search';
+import { getSearchIndex, searchJson } from '../../../lib/searchIndex';
+
+export async function getStaticPaths() {
+  const { textChunks } = await getSearchIndex();
+  return textChunks.map((text, chunk) => ({ params: { chunk: String(chunk) }, props: { text } }));
+}
+
+export const GET: APIRoute<{ text: SearchTextChunk }> = ({ props }) => searchJson(props.text);
@@ -0,0 +1,9 @@
+import type { APIRoute } from 'astro';
+import { getSitemapUrls, renderSitemap } from '../lib/sitemap';
+
+export const GET: APIRoute = async ({ site }) => {
+  if (!site) throw new Error('Set `site` in astro.config.mjs to generate the sitemap.');
+  return new Response(renderSitemap(await getSitemapUrls(), site), {
+    headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+  });
+};
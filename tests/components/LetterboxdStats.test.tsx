@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { cleanup, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { LetterboxdStats as Stats } from '../../functions/_lib/types';
+import LetterboxdStats from '../../src/components/LetterboxdStats';
+
+const useFeed = vi.hoisted(() => vi.fn());
+vi.mock('../../src/hooks/useFeed', () => ({ useFeed }));
+
+function stats(overrides: Partial<Stats> = {}): Stats {
+  return {
+    totalWatches: 7,
+    ratedWatches: 7,
+    averageRating: 3.5,
+    ratings: [{ key: 3.5, count: 7 }],
+    watchesByMonth: [
+      { key: '2023-12', count: 3 },
+      { key: '2024-01', count: 4 },
+    ],
+    watchesByYear: [
+      { key: 2023, count: 3 },
+      { key: 2024, count: 4 },
+    ],
+    filmDecades: [{ key: 1970, count: 7 }],
+    ...overrides,
+  };
+}
+
+function renderStats(value: Stats) {
+  useFeed.mockReturnValue({ data: { stats: value }, error: null, isLoading: false });
+  return render(<LetterboxdStats />);
+}
+
+/** Each bar-list row as its label and count. */
+function rows(label: string): string[][] {
+  const figure = screen.getByText(label).closest('figure')!;
+  const list = figure.querySelector('figcaption + div')!;
+  return [...list.children].map(row =>
+    [...row.querySelectorAll('span')].map(span => span.textContent ?? '').filter(Boolean),
+  );
+}
+
+afterEach(cleanup);
+
+describe('LetterboxdStats', () => {
+  it('lists watches per year, oldest first', () => {
+    renderStats(stats());
+
+    expect(rows('watches / year')).toEqual([
+      ['2023', '3'],
+      ['2024', '4'],
+    ]);
+    expect(rows('film decades')).toEqual([['1970s', '7']]);
+  });
+
+  it('skips the yearly list when every watch falls in one year', () => {
+    renderStats(stats({ watchesByYear: [{ key: 2024, count: 7 }] }));
+
+    expect(screen.queryByText('watches / year')).toBeNull();
+    expect(rows('film decades')).toEqual([['1970s', '7']]);
+  });
+});
@@ -0,0 +1 @@
+export const onRequestGet = () => new Response('[]');
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearMemoryArchives } from '../../functions/_lib/archive';
+import { memoryCacheStore } from '../../functions/_lib/cache';
+import type { ActivityResponse, FeedErrorBody } from '../../functions/_lib/types';
+import { onRequestGet } from '../../functions/api/activity';
+import { callHandler, readFixture, stubFetch, textResponse } from '../helpers/pages';
+
+const FEED_URL = 'https://www.flickr.com/services/feeds/photos_public.gne';
+const RSS_URL = 'https://letterboxd.com/xiphosen/rss/';
+const INDEX_URL = 'https://skhattak.dev/content-index.json';
+const ENDPOINT = 'https://skhattak.dev/api/activity';
+
+describe('/api/activity', () => {
+  beforeEach(() => {
+    memoryCacheStore.clear();
+    clearMemoryArchives();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('merges photos, watches and site content newest first', async () => {
+    stubFetch({
+      [FEED_URL]: () => textResponse(readFixture('flickr-feed.json')),
+      [RSS_URL]: () => textResponse(readFixture('letterboxd-rss.xml')),
+      [INDEX_URL]: () => textResponse(readFixture('content-index.json')),
+    });
+
+    const { response, body } = await callHandler<ActivityResponse>(
+      onRequestGet,
+      `${ENDPOINT}?limit=6`,
+    );
+
+    expect(response.status).toBe(200);
+    expect(body.warnings).toBeUndefined();
+    expect(body.items.map(item => item.id)).toEqual([
+      'photo:53512345601',
+      'post:kentucky-route-zero-xanadu',
+      'watch:letterboxd-review-510000001',
+      'watch:letterboxd-watch-510000002',
+      'photo:53512345602',
+      'watch:letterboxd-watch-510000003',
+    ]);
+    expect(body.items.some(item => item.id === 'project:rv32i-core')).toBe(false);
+  });
+
+  it('keeps the other sources when one fails', async () => {
+    stubFetch({
+      [FEED_URL]: () => textResponse('', { status: 503 }),
+      [RSS_URL]: () => textResponse(readFixture('letterboxd-rss.xml')),
+      [INDEX_URL]: () => textResponse(readFixture('content-index.json')),
+    });
+
+    const { response, body } = await callHandler<ActivityResponse>(onRequestGet, ENDPOINT);
+
+    expect(response.status).toBe(200);
+    expect(body.warnings).toEqual(['Flickr photos are unavailable.']);
+    expect(new Set(body.items.map(item => item.kind))).toEqual(
+      new Set(['post', 'demo', 'watch']),
+    );
+  });
+
+  it('fails when every source is down', async () => {
+    stubFetch({
+      [FEED_URL]: () => textResponse('', { status: 503 }),
+      [RSS_URL]: () => textResponse('', { status: 503 }),
+      [INDEX_URL]: () => textResponse('', { status: 404 }),
+    });
+
+    const { response, body } = await callHandler<FeedErrorBody>(onRequestGet, ENDPOINT);
+
+    expect(response.status).toBe(502);
+    expect(body.error.code).toBe('upstream_unavailable');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { KvArchiveStore, type ArchiveSchema } from '../../functions/_lib/archive';
+import type { KeyValueNamespace } from '../../functions/_lib/cache';
+
+interface Watch {
+  id: string;
+  watchedAt: string;
+}
+
+const schema: ArchiveSchema<Watch> = {
+  id: watch => watch.id,
+  sortKey: watch => [new Date(watch.watchedAt).valueOf(), 0, watch.id],
+};
+
+/** A KV namespace backed by a Map whose reads and writes yield, so writers interleave. */
+function memoryNamespace(): KeyValueNamespace & { values: Map<string, string>; reads: string[] } {
+  const values = new Map<string, string>();
+  const reads: string[] = [];
+  const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+  return {
+    values,
+    reads,
+    async get(key) {
+      await tick();
+      reads.push(key);
+      const value = values.get(key);
+      return value === undefined ? null : JSON.parse(value);
+    },
+    async put(key, value) {
+      await tick();
+      values.set(key, value);
+    },
+    async delete(key) {
+      await tick();
+      values.delete(key);
+    },
+    async list({ prefix }) {
+      const keys = [...values.keys()].filter(key => key.startsWith(prefix)).sort();
+      return { keys: keys.map(name => ({ name })), list_complete: true };
+    },
+  };
+}
+
+const watch = (id: string, watchedAt: string): Watch => ({ id, watchedAt });
+
+describe('KvArchiveStore', () => {
+  it('keeps items from overlapping writes to different months', async () => {
+    const namespace = memoryNamespace();
+    const first = new KvArchiveStore(namespace, 'archive', schema);
+    const second = new KvArchiveStore(namespace, 'archive', schema);
+
+    await Promise.all([
+      first.add([watch('a', '2024-01-10')]),
+      second.add([watch('b', '2024-02-10')]),
+    ]);
+
+    expect([...namespace.values.keys()].sort()).toEqual(['archive:2024-01', 'archive:2024-02']);
+    expect((await first.load()).map(item => item.id)).toEqual(['b', 'a']);
+  });
+
+  it('replaces items by id within a month', async () => {
+    const store = new KvArchiveStore(memoryNamespace(), 'archive', schema);
+
+    await store.add([watch('a', '2024-01-10'), watch('b', '2024-01-12')]);
+    await store.add([watch('a', '2024-01-20')]);
+
+    expect(await store.load()).toEqual([watch('a', '2024-01-20'), watch('b', '2024-01-12')]);
+  });
+
+  it('moves an item out of its old month when its watch date changes', async () => {
+    const namespace = memoryNamespace();
+    const store = new KvArchiveStore(namespace, 'archive', schema);
+
+    await store.add([watch('a', '2024-01-10'), watch('b', '2024-01-12')]);
+    await store.add([watch('a', '2024-02-03')]);
+
+    const month = (name: string) => JSON.parse(namespace.values.get(`archive:${name}`)!);
+    expect(month('2024-01')).toEqual([watch('b', '2024-01-12')]);
+    expect(month('2024-02')).toEqual([watch('a', '2024-02-03')]);
+    expect(await store.load()).toEqual([watch('a', '2024-02-03'), watch('b', '2024-01-12')]);
+  });
+
+  it('serves loads from the merged copy until a write changes something', async () => {
+    const namespace = memoryNamespace();
+    const store = new KvArchiveStore(namespace, 'archive', schema);
+    await store.add([watch('a', '2023-11-10'), watch('b', '2023-12-10'), watch('c', '2024-01-10')]);
+
+    await store.load();
+    namespace.reads.length = 0;
+    expect((await store.load()).map(item => item.id)).toEqual(['c', 'b', 'a']);
+    expect(namespace.reads).toEqual(['archive:merged']);
+
+    await store.add([watch('c', '2024-01-10')]);
+    expect(namespace.values.has('archive:merged')).toBe(true);
+
+    await store.add([watch('d', '2024-02-10')]);
+    expect(namespace.values.has('archive:merged')).toBe(false);
+    expect((await store.load()).map(item => item.id)).toEqual(['d', 'c', 'b', 'a']);
+  });
+
+  it('still reads an archive stored under the single legacy key', async () => {
+    const namespace = memoryNamespace();
+    namespace.values.set('archive', JSON.stringify([watch('old', '2023-05-01')]));
+    const store = new KvArchiveStore(namespace, 'archive', schema);
+
+    await store.add([watch('new', '2024-03-01')]);
+
+    expect((await store.load()).map(item => item.id)).toEqual(['new', 'old']);
+  });
+});
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryCacheStore } from '../../functions/_lib/cache';
+import { onRequestGet } from '../../functions/api/flickr';
+import type { FeedErrorBody, FlickrResponse } from '../../functions/_lib/types';
+import { callHandler, readFixture, stubFetch, textResponse } from '../helpers/pages';
+
+const FEED_URL = 'https://www.flickr.com/services/feeds/photos_public.gne';
+const REST_URL = 'https://api.flickr.com/services/rest/';
+const ENDPOINT = 'https://skhattak.dev/api/flickr';
+
+describe('/api/flickr', () => {
+  beforeEach(() => {
+    memoryCacheStore.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('normalizes feed items', async () => {
+    stubFetch({ [FEED_URL]: () => textResponse(readFixture('flickr-feed.json')) });
+
+    const { response, body } = await callHandler<FlickrResponse>(onRequestGet, ENDPOINT);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store, no-cache, must-revalidate');
+    expect(body.profile).toEqual({
+      title: 'Uploads from skhattak',
+      url: 'https://www.flickr.com/photos/198040252@N06/',
+    });
+    expect(body.updatedAt).toBe('2024-02-10T08:15:00Z');
+    expect(body.items.map(item => item.title)).toEqual([
+      'Orion Nebula',
+      'Great Blue Heron',
+      'Untitled',
+      'No dimensions',
+    ]);
+
+    const [nebula, heron, square, unknown] = body.items;
+    expect(nebula).toMatchObject({
+      id: '53512345601',
+      width: 240,
+      height: 160,
+      orientation: 'landscape',
+      tags: ['astro', 'nebula', 'orion'],
+      dateTaken: '2024-02-09T23:10:00-08:00',
+    });
+    expect(heron).toMatchObject({ width: 160, height: 240, orientation: 'portrait' });
+    expect(square).toMatchObject({ orientation: 'square', tags: [] });
+    expect(unknown).toMatchObject({
+      width: null,
+      height: null,
+      orientation: 'landscape',
+      dateTaken: null,
+    });
+    expect(body.items.every(item => item.exif === null)).toBe(true);
+  });
+
+  it('adds EXIF when an API key is configured and caches it per photo', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-02-10T09:00:00Z'));
+    const fetchMock = stubFetch({
+      [FEED_URL]: () => textResponse(readFixture('flickr-feed.json')),
+      [REST_URL]: request => {
+        const url = new URL(request.url);
+        expect(url.searchParams.get('api_key')).toBe('test-key');
+        const photoId = url.searchParams.get('photo_id');
+        if (photoId === '53512345601') return textResponse(readFixture('flickr-exif-53512345601.json'));
+        if (photoId === '53512345605') return textResponse('', { status: 503 });
+        return textResponse(readFixture('flickr-exif-denied.json'));
+      },
+    });
+    const env = { FLICKR_API_KEY: 'test-key' };
+
+    const { body } = await callHandler<FlickrResponse>(onRequestGet, ENDPOINT, env);
+
+    expect(body.items[0].exif).toEqual({
+      camera: 'Canon EOS Rebel T7',
+      lens: 'Sky-Watcher 120ED',
+      focalLength: '600 mm',
+      exposure: '30',
+      iso: '1600',
+      aperture: 'f/5.6',
+    });
+    expect(body.items.slice(1).map(item => item.exif)).toEqual([null, null, null]);
+
+    const exifCalls = () =>
+      fetchMock.mock.calls.filter(([input]) => String(input).startsWith(REST_URL)).length;
+    expect(exifCalls()).toBe(4);
+
+    vi.setSystemTime(new Date('2024-02-12T09:00:00Z'));
+    await callHandler<FlickrResponse>(onRequestGet, ENDPOINT, env);
+    // Only the photo whose EXIF request failed is retried.
+    expect(exifCalls()).toBe(5);
+  });
+
+  it('filters by tags in any or all mode', async () => {
+    stubFetch({ [FEED_URL]: () => textResponse(readFixture('flickr-feed.json')) });
+
+    const any = await callHandler<FlickrResponse>(onRequestGet, `${ENDPOINT}?tags=Birds,nebula`);
+    expect(any.body.items.map(item => item.title)).toEqual(['Orion Nebula', 'Great Blue Heron']);
+
+    const all = await callHandler<FlickrResponse>(
+      onRequestGet,
+      `${ENDPOINT}?tags=astro+orion&tagmode=all`,
+    );
+    expect(all.body.items.map(item => item.title)).toEqual(['Orion Nebula']);
+
+    const invalid = await callHandler<FeedErrorBody>(onRequestGet, `${ENDPOINT}?tags=astro&tagmode=most`);
+    expect(invalid.response.status).toBe(400);
+    expect(invalid.body.error.code).toBe('invalid_parameter');
+  });
+
+  it('reports invalid JSON as an upstream error', async () => {
+    stubFetch({ [FEED_URL]: () => textResponse('{"items": [') });
+
+    const { response, body } = await callHandler<FeedErrorBody>(onRequestGet, ENDPOINT);
+
+    expect(response.status).toBe(502);
+    expect(body.error.code).toBe('upstream_invalid');
+  });
+
+  it('serves cached items, then stale items when upstream fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-02-10T09:00:00Z'));
+    let upstreamStatus = 200;
+    const fetchMock = stubFetch({
+      [FEED_URL]: () =>
+        upstreamStatus === 200
+          ? textResponse(readFixture('flickr-feed.json'))
+          : textResponse('', { status: upstreamStatus }),
+    });
+
+    const first = await callHandler<FlickrResponse>(onRequestGet, `${ENDPOINT}?limit=2`);
+    expect(first.response.headers.get('X-Cache')).toBe('MISS');
+    expect(first.body.items).toHaveLength(2);
+
+    vi.setSystemTime(new Date('2024-02-10T09:01:00Z'));
+    const hit = await callHandler<FlickrResponse>(onRequestGet, ENDPOINT);
+    expect(hit.response.headers.get('X-Cache')).toBe('HIT');
+    expect(hit.response.headers.get('Age')).toBe('60');
+    expect(hit.body.items).toHaveLength(4);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    upstreamStatus = 500;
+    vi.setSystemTime(new Date('2024-02-12T09:00:00Z'));
+    const stale = await callHandler<FlickrResponse>(onRequestGet, ENDPOINT);
+    expect(stale.response.status).toBe(200);
+    expect(stale.response.headers.get('X-Cache')).toBe('STALE');
+    expect(stale.body.items).toHaveLength(4);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
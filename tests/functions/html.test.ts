@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToText } from '../../functions/_lib/html';
+
+describe('htmlToText', () => {
+  it('turns tags into spaces and decodes entities on one line', () => {
+    expect(htmlToText('<p>Fish&nbsp;&amp; chips</p>\n<p>&ldquo;x&rdquo; &#8805; 1</p>')).toBe(
+      'Fish & chips “x” ≥ 1',
+    );
+  });
+
+  it('drops the content of the elements it is told to skip', () => {
+    const html = '<p>keep</p><pre><code>drop()</code></pre><math><mi>x</mi></math> tail';
+    expect(htmlToText(html, ['pre', 'math'])).toBe('keep tail');
+  });
+});
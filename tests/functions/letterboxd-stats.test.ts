@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearMemoryArchives } from '../../functions/_lib/archive';
+import { memoryCacheStore } from '../../functions/_lib/cache';
+import type { FeedErrorBody, LetterboxdStatsResponse } from '../../functions/_lib/types';
+import { onRequestGet } from '../../functions/api/letterboxd/stats';
+import { callHandler, readFixture, stubFetch, textResponse } from '../helpers/pages';
+
+const RSS_URL = 'https://letterboxd.com/xiphosen/rss/';
+const ENDPOINT = 'https://skhattak.dev/api/letterboxd/stats';
+
+describe('/api/letterboxd/stats', () => {
+  beforeEach(() => {
+    memoryCacheStore.clear();
+    clearMemoryArchives();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('aggregates ratings, watch dates and decades', async () => {
+    stubFetch({ [RSS_URL]: () => textResponse(readFixture('letterboxd-rss.xml')) });
+
+    const { response, body } = await callHandler<LetterboxdStatsResponse>(onRequestGet, ENDPOINT);
+    const { stats } = body;
+
+    expect(response.status).toBe(200);
+    expect(stats.totalWatches).toBe(4);
+    expect(stats.ratedWatches).toBe(3);
+    expect(stats.averageRating).toBe(4.5);
+    expect(stats.ratings).toHaveLength(10);
+    expect(stats.ratings.filter(bucket => bucket.count > 0)).toEqual([
+      { key: 4, count: 1 },
+      { key: 4.5, count: 1 },
+      { key: 5, count: 1 },
+    ]);
+    expect(stats.watchesByMonth).toEqual([{ key: '2024-02', count: 4 }]);
+    expect(stats.watchesByYear).toEqual([{ key: 2024, count: 4 }]);
+    expect(stats.filmDecades).toEqual([
+      { key: 1970, count: 1 },
+      { key: 1990, count: 1 },
+      { key: 2020, count: 1 },
+    ]);
+  });
+
+  it('surfaces upstream failures', async () => {
+    stubFetch({ [RSS_URL]: () => textResponse('', { status: 500 }) });
+
+    const { response, body } = await callHandler<FeedErrorBody>(onRequestGet, ENDPOINT);
+
+    expect(response.status).toBe(502);
+    expect(body.error.code).toBe('upstream_unavailable');
+  });
+});
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearMemoryArchives } from '../../functions/_lib/archive';
+import { memoryCacheStore } from '../../functions/_lib/cache';
+import { onRequestGet } from '../../functions/api/letterboxd';
+import type { FeedErrorBody, LetterboxdResponse } from '../../functions/_lib/types';
+import { callHandler, readFixture, stubFetch, textResponse } from '../helpers/pages';
+
+const RSS_URL = 'https://letterboxd.com/xiphosen/rss/';
+const ENDPOINT = 'https://skhattak.dev/api/letterboxd';
+
+describe('/api/letterboxd', () => {
+  beforeEach(() => {
+    memoryCacheStore.clear();
+    clearMemoryArchives();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('normalizes reviews, diary entries and skips non-film items', async () => {
+    stubFetch({ [RSS_URL]: () => textResponse(readFixture('letterboxd-rss.xml')) });
+
+    const { response, body } = await callHandler<LetterboxdResponse>(onRequestGet, ENDPOINT);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Cache')).toBe('MISS');
+    expect(body.profile).toEqual({ handle: 'xiphosen', url: 'https://letterboxd.com/xiphosen/' });
+    expect(body.items.map(item => item.filmTitle)).toEqual([
+      'Perfect Days',
+      'Alien',
+      'Tom & Jerry: The <Movie>',
+      'Mulholland Drive',
+    ]);
+    expect(body.warnings).toEqual([
+      'Ignored non-numeric filmYear "two thousand one" on "Mulholland Drive, 2001 - ★★★★★".',
+      'Skipped "Some List": no letterboxd:filmTitle.',
+    ]);
+
+    const [review, diary, noPoster, spoilers] = body.items;
+    expect(review).toMatchObject({
+      title: 'Perfect Days, 2023 - ★★★★½',
+      filmYear: 2023,
+      memberRating: 4.5,
+      watchedDate: '2024-02-09',
+      publishedAt: 'Sat, 10 Feb 2024 05:12:33 +1300',
+      link: 'https://letterboxd.com/xiphosen/film/perfect-days-2023/',
+      posterUrl: 'https://a.ltrbxd.com/resized/film-poster/perfect-days-0-600-0-900-crop.jpg?v=1',
+    });
+    expect(review.reviewText).toBe(
+      'Hirayama’s toilets are the cleanest in Tokyo.\n\nKomorebi forever.\nNext time I\'ll bring tissues & a cassette.',
+    );
+    expect(review.reviewHtml).toBe(
+      '<p>Hirayama’s toilets are the cleanest in Tokyo.</p><p>Komorebi <i>forever</i>.<br>Next time I\'ll bring tissues &amp; a cassette.</p>',
+    );
+    expect(review.containsSpoilers).toBe(false);
+
+    expect(diary.reviewText).toBeNull();
+    expect(diary.memberRating).toBe(4);
+
+    expect(noPoster).toMatchObject({
+      title: 'Tom & Jerry: The <Movie>, 1992',
+      posterUrl: null,
+      memberRating: null,
+      reviewText: null,
+    });
+
+    expect(spoilers).toMatchObject({
+      filmYear: null,
+      memberRating: 5,
+      posterUrl: 'https://a.ltrbxd.com/resized/film-poster/mulholland-0-600-0-900-crop.jpg',
+      containsSpoilers: true,
+      reviewText: 'Silencio. See Club Silencio & this.\n\nIt\'s Diane…',
+    });
+    expect(spoilers.reviewHtml).toBe(
+      '<p>Silencio. See <a href="https://example.com/club" rel="noopener noreferrer" target="_blank">Club Silencio</a> &amp; <a>this</a>.</p><p>It\'s <i>Diane</i>…</p>',
+    );
+  });
+
+  it('applies limit and since', async () => {
+    stubFetch({ [RSS_URL]: () => textResponse(readFixture('letterboxd-rss.xml')) });
+
+    const limited = await callHandler<LetterboxdResponse>(onRequestGet, `${ENDPOINT}?limit=1`);
+    expect(limited.body.items).toHaveLength(1);
+
+    const recent = await callHandler<LetterboxdResponse>(onRequestGet, `${ENDPOINT}?since=2024-02-08`);
+    expect(recent.body.items.map(item => item.filmTitle)).toEqual(['Perfect Days', 'Alien']);
+  });
+
+  it('rejects malformed parameters', async () => {
+    const fetchMock = stubFetch({});
+
+    const { response, body } = await callHandler<FeedErrorBody>(onRequestGet, `${ENDPOINT}?limit=lots`);
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe('invalid_parameter');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('returns 502 when upstream fails with nothing cached', async () => {
+    stubFetch({ [RSS_URL]: () => textResponse('nope', { status: 503 }) });
+
+    const { response, body } = await callHandler<FeedErrorBody>(onRequestGet, ENDPOINT);
+
+    expect(response.status).toBe(502);
+    expect(body.error).toEqual({
+      code: 'upstream_unavailable',
+      message: 'Failed to fetch Letterboxd feed.',
+    });
+  });
+
+  it('pages through the archive with a cursor', async () => {
+    stubFetch({ [RSS_URL]: () => textResponse(readFixture('letterboxd-rss.xml')) });
+
+    const first = await callHandler<LetterboxdResponse>(onRequestGet, `${ENDPOINT}?limit=3`);
+    expect(first.body.items.map(item => item.filmTitle)).toEqual([
+      'Perfect Days',
+      'Alien',
+      'Tom & Jerry: The <Movie>',
+    ]);
+    expect(first.body.nextCursor).toEqual(expect.any(String));
+
+    const second = await callHandler<LetterboxdResponse>(
+      onRequestGet,
+      `${ENDPOINT}?limit=3&cursor=${first.body.nextCursor}`,
+    );
+    expect(second.body.items.map(item => item.filmTitle)).toEqual(['Mulholland Drive']);
+    expect(second.body.nextCursor).toBeNull();
+
+    const window = await callHandler<LetterboxdResponse>(
+      onRequestGet,
+      `${ENDPOINT}?after=2024-02-03&before=2024-02-09`,
+    );
+    expect(window.body.items.map(item => item.filmTitle)).toEqual([
+      'Alien',
+      'Tom & Jerry: The <Movie>',
+    ]);
+
+    const invalid = await callHandler<FeedErrorBody>(onRequestGet, `${ENDPOINT}?cursor=not-a-cursor`);
+    expect(invalid.response.status).toBe(400);
+    expect(invalid.body.error.code).toBe('invalid_parameter');
+  });
+
+  it('keeps entries that have scrolled out of the RSS window', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-02-10T00:00:00Z'));
+    let fixture = 'letterboxd-rss.xml';
+    stubFetch({ [RSS_URL]: () => textResponse(readFixture(fixture)) });
+
+    await callHandler(onRequestGet, ENDPOINT);
+
+    fixture = 'letterboxd-rss-next.xml';
+    vi.setSystemTime(new Date('2024-02-10T12:00:00Z'));
+    const stale = await callHandler<LetterboxdResponse>(onRequestGet, ENDPOINT);
+    expect(stale.response.headers.get('X-Cache')).toBe('STALE');
+    await stale.settled();
+
+    const { body } = await callHandler<LetterboxdResponse>(onRequestGet, `${ENDPOINT}?limit=100`);
+    expect(body.items.map(item => item.filmTitle)).toEqual([
+      'Paris, Texas',
+      'Perfect Days',
+      'Alien',
+      'Tom & Jerry: The <Movie>',
+      'Mulholland Drive',
+    ]);
+    expect(body.items[1]).toMatchObject({ memberRating: 5, reviewText: 'Upgraded on reflection.' });
+  });
+});
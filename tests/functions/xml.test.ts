@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEntities, tokenizeXml, XmlTokenizer } from '../../functions/_lib/xml';
+
+describe('decodeEntities', () => {
+  it('decodes numeric, XML and common HTML entities once', () => {
+    expect(decodeEntities('&#8217;&#x2019;&apos;&quot;&hellip;&amp;lt;&bogus;')).toBe(
+      '’’\'"…&lt;&bogus;',
+    );
+  });
+});
+
+describe('XmlTokenizer', () => {
+  it('keeps quoted > inside attributes', () => {
+    const { tokens } = tokenizeXml('<img alt="a > b" src=\'x.jpg\'/>');
+    expect(tokens).toEqual([
+      { type: 'open', name: 'img', attributes: { alt: 'a > b', src: 'x.jpg' }, selfClosing: true },
+    ]);
+  });
+
+  it('produces the same tokens regardless of chunk boundaries', () => {
+    const xml =
+      '<?xml version="1.0"?><rss><!-- note --><title><![CDATA[A <b>]]></title><p>Fish &amp; chips</p></rss>';
+    const whole = tokenizeXml(xml).tokens;
+
+    const tokenizer = new XmlTokenizer();
+    const chunked = [];
+    for (const char of xml) chunked.push(...tokenizer.write(char));
+    chunked.push(...tokenizer.end());
+
+    const merge = (tokens: typeof whole) =>
+      tokens.reduce<typeof whole>((out, token) => {
+        const last = out[out.length - 1];
+        if (token.type === 'text' && last?.type === 'text') {
+          out[out.length - 1] = { type: 'text', value: last.value + token.value };
+        } else {
+          out.push(token);
+        }
+        return out;
+      }, []);
+
+    expect(merge(chunked)).toEqual(merge(whole));
+    expect(whole).toContainEqual({ type: 'cdata', value: 'A <b>' });
+    expect(whole).toContainEqual({ type: 'text', value: 'Fish & chips' });
+  });
+
+  it('warns about unterminated markup', () => {
+    const { warnings } = tokenizeXml('<rss><item');
+    expect(warnings).toHaveLength(1);
+  });
+});
@@ -0,0 +1,50 @@
+import type { CollectionEntry } from 'astro:content';
+import type { ContentCollection } from '../../functions/_lib/types';
+
+type AnyEntry = CollectionEntry<ContentCollection>;
+
+export interface FakeEntryData {
+  title?: string;
+  subtitle?: string;
+  date?: Date;
+  updated?: Date;
+  tags?: string[];
+  related?: string[];
+  series?: { id: string; order: number };
+  draft?: boolean;
+  unlisted?: boolean;
+}
+
+/**
+ * A collection entry as `getCollection` returns it, with schema defaults
+ * applied. `html` is what the mocked `renderEntryHtml` hands back for it.
+ */
+export interface FakeEntry {
+  id: string;
+  collection: ContentCollection;
+  data: FakeEntryData & { title: string; draft: boolean; unlisted: boolean };
+  html: string;
+}
+
+export function fakeEntry(
+  key: `${ContentCollection}/${string}`,
+  data: FakeEntryData = {},
+  html = '',
+): FakeEntry {
+  const [collection, slug] = key.split('/') as [ContentCollection, string];
+  return {
+    id: `${slug}/index`,
+    collection,
+    data: { title: slug, date: new Date('2024-01-01'), draft: false, unlisted: false, ...data },
+    html,
+  };
+}
+
+/** Serves `entries` the way `astro:content`'s `getCollection` would, filter included. */
+export function fakeGetCollection(entries: () => FakeEntry[]) {
+  return async (collection: ContentCollection, filter?: (entry: AnyEntry) => unknown) =>
+    entries().filter(
+      entry =>
+        entry.collection === collection && (!filter || filter(entry as unknown as AnyEntry)),
+    );
+}
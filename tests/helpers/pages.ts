@@ -0,0 +1,79 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { vi } from 'vitest';
+
+/** The parts of a Pages Functions `EventContext` that `callHandler` provides. */
+interface HandlerContext {
+  request: Request;
+  env: object;
+  params: Record<string, string | string[]>;
+  data: Record<string, unknown>;
+  functionPath: string;
+  waitUntil: (promise: Promise<unknown>) => void;
+  passThroughOnException: () => void;
+  next: () => Promise<Response>;
+}
+
+type Handler = (context: HandlerContext) => Promise<Response> | Response;
+
+export type FetchRoute = (request: Request) => Response | Promise<Response>;
+
+export function readFixture(name: string): string {
+  return readFileSync(fileURLToPath(new URL(`../fixtures/${name}`, import.meta.url)), 'utf8');
+}
+
+export function textResponse(body: string, init: ResponseInit = {}): Response {
+  return new Response(body, { status: 200, ...init });
+}
+
+/**
+ * Replaces the global `fetch` with one that serves canned responses. Routes are
+ * matched by URL prefix; anything unmatched fails the test instead of reaching
+ * the network.
+ */
+export function stubFetch(routes: Record<string, FetchRoute>) {
+  const mock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const prefix = Object.keys(routes).find(candidate => request.url.startsWith(candidate));
+    if (!prefix) throw new Error(`Unexpected fetch in test: ${request.url}`);
+    return routes[prefix](request);
+  });
+  vi.stubGlobal('fetch', mock);
+  return mock;
+}
+
+export interface HandlerResult<T> {
+  response: Response;
+  body: T;
+  /** Resolves once everything handed to `waitUntil` has settled. */
+  settled: () => Promise<void>;
+}
+
+export async function callHandler<T = unknown>(
+  handler: Handler,
+  url: string,
+  env: object = {},
+): Promise<HandlerResult<T>> {
+  const pending: Promise<unknown>[] = [];
+  const request = new Request(url);
+  const response = await handler({
+    request,
+    env,
+    params: {},
+    data: {},
+    functionPath: new URL(url).pathname,
+    waitUntil: promise => {
+      pending.push(promise);
+    },
+    passThroughOnException: () => undefined,
+    next: () => Promise.reject(new Error('next() is not available in tests')),
+  });
+  const body = (await response.clone().json()) as T;
+  return {
+    response,
+    body,
+    settled: async () => {
+      await Promise.allSettled(pending);
+    },
+  };
+}
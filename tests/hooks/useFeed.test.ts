@@ -0,0 +1,148 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const FEED_URL = '/api/feed';
+const INTERVAL_MS = 60_000;
+
+interface PendingFetch {
+  signal: AbortSignal;
+  respond: (body: unknown, status?: number) => void;
+}
+
+let pending: PendingFetch[] = [];
+
+/** A `fetch` that only settles when the test calls `respond`. */
+function controlledFetch() {
+  return vi.fn((_input: string, init: RequestInit = {}) => {
+    return new Promise<Response>((resolve, reject) => {
+      const signal = init.signal!;
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      pending.push({
+        signal,
+        respond: (body, status = 200) =>
+          resolve(new Response(JSON.stringify(body), { status })),
+      });
+    });
+  });
+}
+
+/** Loads the hook fresh, since its memory cache and in-flight map are module state. */
+async function loadHook() {
+  vi.resetModules();
+  const { useFeed } = await import('../../src/hooks/useFeed');
+  return (url = FEED_URL) =>
+    renderHook(() => useFeed<{ n: number }>(url, { intervalMs: INTERVAL_MS }));
+}
+
+async function advance(ms: number) {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+}
+
+async function respond(body: unknown, status?: number) {
+  await act(async () => {
+    pending.shift()!.respond(body, status);
+  });
+}
+
+function setVisibility(state: DocumentVisibilityState) {
+  Object.defineProperty(document, 'visibilityState', { configurable: true, value: state });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('useFeed', () => {
+  let fetchMock: ReturnType<typeof controlledFetch>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    pending = [];
+    fetchMock = controlledFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    window.sessionStorage.clear();
+    setVisibility('visible');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('shares one request and aborts it only after every subscriber unmounts', async () => {
+    const render = await loadHook();
+    const first = render();
+    const second = render();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [request] = pending;
+
+    first.unmount();
+    expect(request.signal.aborted).toBe(false);
+    second.unmount();
+    expect(request.signal.aborted).toBe(true);
+  });
+
+  it('backs off exponentially after failures and resets on success', async () => {
+    const render = await loadHook();
+    const { result } = render();
+
+    await respond({}, 500);
+    expect(result.current.error).toBe('Request failed (500)');
+
+    await advance(4_999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await respond({}, 500);
+    await advance(9_999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await advance(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await respond({ n: 1 });
+    expect(result.current).toEqual({ data: { n: 1 }, error: null, isLoading: false });
+    await advance(INTERVAL_MS - 1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    await advance(1);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('stops polling while the tab is hidden and refetches stale data when it returns', async () => {
+    const render = await loadHook();
+    render();
+    await respond({ n: 1 });
+
+    act(() => setVisibility('hidden'));
+    await advance(INTERVAL_MS * 3);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    act(() => setVisibility('visible'));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('renders from sessionStorage without refetching fresh data', async () => {
+    window.sessionStorage.setItem(
+      `feed:${FEED_URL}`,
+      JSON.stringify({ data: { n: 7 }, fetchedAt: Date.now() - 1_000 }),
+    );
+    const render = await loadHook();
+    const { result } = render();
+
+    expect(result.current.data).toEqual({ n: 7 });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await advance(INTERVAL_MS - 1_000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('writes successful responses to sessionStorage for the next page', async () => {
+    const render = await loadHook();
+    render();
+    await respond({ n: 2 });
+
+    const stored = JSON.parse(window.sessionStorage.getItem(`feed:${FEED_URL}`)!);
+    expect(stored).toEqual({ data: { n: 2 }, fetchedAt: Date.now() });
+  });
+});
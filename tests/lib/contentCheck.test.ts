@@ -0,0 +1,93 @@
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { AstroIntegration, AstroIntegrationLogger } from 'astro';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ContentCheckOptions } from '../../src/lib/contentCheck';
+
+const FIXTURE = fileURLToPath(new URL('../fixtures/content-check/', import.meta.url));
+
+vi.mock('../../src/lib/entries', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../src/lib/entries')>()),
+  CONTENT_DIR: fileURLToPath(new URL('../fixtures/content-check/content', import.meta.url)),
+}));
+
+type Hooks = Required<AstroIntegration['hooks']>;
+
+interface Logged {
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+/** Runs the integration's hooks over `tests/fixtures/content-check/build`. */
+async function runCheck(options: ContentCheckOptions = {}) {
+  const { default: contentCheck } = await import('../../src/lib/contentCheck');
+  const hooks = contentCheck(options).hooks as Hooks;
+  const logged: Logged[] = [];
+  const log = (level: Logged['level']) => (message: string) => logged.push({ level, message });
+  const logger = { info: log('info'), warn: log('warn'), error: log('error') };
+
+  await hooks['astro:config:done']({
+    config: {
+      root: pathToFileURL(FIXTURE),
+      publicDir: pathToFileURL(`${FIXTURE}public/`),
+      site: 'https://skhattak.dev',
+    },
+  } as unknown as Parameters<Hooks['astro:config:done']>[0]);
+
+  let failure: Error | null = null;
+  try {
+    await hooks['astro:build:done']({
+      dir: pathToFileURL(`${FIXTURE}build/`),
+      logger: logger as unknown as AstroIntegrationLogger,
+    } as unknown as Parameters<Hooks['astro:build:done']>[0]);
+  } catch (error) {
+    failure = error as Error;
+  }
+  return { logged, failure };
+}
+
+const messagesAt = (logged: Logged[], level: Logged['level']) =>
+  logged.filter(entry => entry.level === level).map(entry => entry.message);
+
+describe('contentCheck', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('fails the build on missing pages, anchors and assets and malformed escapes', async () => {
+    const { logged, failure } = await runCheck();
+
+    expect(messagesAt(logged, 'error')).toEqual([
+      '[anchors] /: /posts/hello/#missing has no #missing',
+      '[links] /: /nope/ does not exist',
+      '[links] /: /posts/100%/ has a malformed %-escape',
+      '[assets] /: /missing@2x.png does not exist',
+    ]);
+    expect(failure?.message).toBe('Content check found 4 problem(s); see the errors above.');
+  });
+
+  it('warns about unused and duplicated files in public and entry directories', async () => {
+    const { logged } = await runCheck();
+
+    expect(messagesAt(logged, 'warn')).toEqual([
+      '[orphans] public/assets/unused.png is not used by any page',
+      '[orphans] content/posts/hello/stray.png is not referenced',
+      '[duplicates] public/assets/plot.png and content/posts/hello/plot.png are identical; ' +
+        "import or link the entry's copy and delete the public one",
+    ]);
+    expect(messagesAt(logged, 'info')).toEqual([
+      '7 problem(s) found checking links, anchors, assets, orphans, duplicates',
+    ]);
+  });
+
+  it('skips checks that are off and downgrades errors with CONTENT_CHECK=warn', async () => {
+    vi.stubEnv('CONTENT_CHECK', 'warn');
+    const { logged, failure } = await runCheck({ orphans: 'off', duplicates: 'off' });
+
+    expect(failure).toBeNull();
+    expect(messagesAt(logged, 'error')).toEqual([]);
+    expect(messagesAt(logged, 'warn')).toHaveLength(4);
+    expect(messagesAt(logged, 'info')).toEqual([
+      '4 problem(s) found checking links, anchors, assets',
+    ]);
+  });
+});
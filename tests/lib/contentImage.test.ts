@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { contentImageLayout } from '../../src/lib/contentImage';
+
+describe('contentImageLayout', () => {
+  it('fills the content column by default', () => {
+    expect(contentImageLayout(3000)).toEqual({
+      widths: [480, 768, 1080, 1440, 2160],
+      sizes: '(max-width: 920px) 100vw, 860px',
+    });
+  });
+
+  it('never generates variants wider than the source', () => {
+    expect(contentImageLayout(900).widths).toEqual([480, 768, 900]);
+    expect(contentImageLayout(400)).toEqual({
+      widths: [400],
+      sizes: '(max-width: 920px) 100vw, 400px',
+    });
+  });
+
+  it('scales sizes to a percentage width in the style', () => {
+    expect(contentImageLayout(3000, 'border-radius: 4px; width: 30%').sizes).toBe(
+      '(max-width: 920px) 30vw, 258px',
+    );
+    expect(contentImageLayout(200, 'width:50%').sizes).toBe('(max-width: 920px) 50vw, 200px');
+  });
+
+  it('ignores widths that are not percentages', () => {
+    expect(contentImageLayout(3000, 'max-width: 40%; width: 300px').sizes).toBe(
+      '(max-width: 920px) 100vw, 860px',
+    );
+  });
+});
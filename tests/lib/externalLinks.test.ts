@@ -0,0 +1,112 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const TODAY = new Date().toISOString().slice(0, 10);
+const LAST_YEAR = '2000-01-01';
+
+let root: string;
+
+/** Loads the checker with its cache file inside a temp project root. */
+async function loadChecker(cache: Record<string, { status: number; checked: string }>) {
+  mkdirSync(join(root, 'src/data'), { recursive: true });
+  writeFileSync(join(root, 'src/data/external-links.json'), JSON.stringify(cache));
+  vi.spyOn(process, 'cwd').mockReturnValue(root);
+  vi.resetModules();
+  return (await import('../../src/lib/externalLinks')).checkExternalLinks;
+}
+
+/** A `fetch` that answers from `statuses` and is offline for every other URL. */
+function stubStatuses(statuses: Record<string, { HEAD: number; GET: number }>) {
+  const mock = vi.fn(async (url: string, init: RequestInit = {}) => {
+    const status = statuses[url]?.[init.method as 'HEAD' | 'GET'];
+    if (!status) throw new TypeError('fetch failed');
+    return new Response(null, { status });
+  });
+  vi.stubGlobal('fetch', mock);
+  return mock;
+}
+
+const OPTIONS = { maxAgeDays: 30, allowHosts: ['letterboxd.com'] };
+
+describe('checkExternalLinks', () => {
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'external-links-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('never requests allowlisted hosts or their subdomains', async () => {
+    const checkExternalLinks = await loadChecker({});
+    const fetchMock = stubStatuses({});
+
+    const result = await checkExternalLinks(
+      [
+        'https://letterboxd.com/film/x/',
+        'https://a.letterboxd.com/y',
+        'https://notletterboxd.com/',
+      ],
+      OPTIONS,
+    );
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://notletterboxd.com/']);
+    expect(result).toEqual({ broken: [], unverified: ['https://notletterboxd.com/'] });
+  });
+
+  it('trusts fresh cached successes and falls back to stale ones when offline', async () => {
+    const checkExternalLinks = await loadChecker({
+      'https://fresh.example/': { status: 200, checked: TODAY },
+      'https://stale.example/': { status: 200, checked: LAST_YEAR },
+      'https://was-broken.example/': { status: 404, checked: TODAY },
+    });
+    const fetchMock = stubStatuses({});
+
+    const result = await checkExternalLinks(
+      ['https://fresh.example/', 'https://stale.example/', 'https://was-broken.example/'],
+      OPTIONS,
+    );
+
+    expect(fetchMock).not.toHaveBeenCalledWith('https://fresh.example/', expect.anything());
+    expect(result).toEqual({ broken: [], unverified: ['https://was-broken.example/'] });
+  });
+
+  it('only reports a link as broken when GET fails too', async () => {
+    const checkExternalLinks = await loadChecker({});
+    stubStatuses({
+      'https://no-head.example/': { HEAD: 405, GET: 200 },
+      'https://gone.example/': { HEAD: 404, GET: 404 },
+    });
+
+    const result = await checkExternalLinks(
+      ['https://no-head.example/', 'https://gone.example/'],
+      OPTIONS,
+    );
+
+    expect(result).toEqual({
+      broken: [{ url: 'https://gone.example/', status: 404 }],
+      unverified: [],
+    });
+  });
+
+  it('writes results back to the cache only with UPDATE_LINK_CACHE', async () => {
+    const cacheFile = join(root, 'src/data/external-links.json');
+    let checkExternalLinks = await loadChecker({});
+    stubStatuses({ 'https://ok.example/': { HEAD: 200, GET: 200 } });
+
+    await checkExternalLinks(['https://ok.example/'], OPTIONS);
+    expect(JSON.parse(readFileSync(cacheFile, 'utf8'))).toEqual({});
+
+    vi.stubEnv('UPDATE_LINK_CACHE', '1');
+    checkExternalLinks = await loadChecker({});
+    await checkExternalLinks(['https://ok.example/'], OPTIONS);
+    expect(JSON.parse(readFileSync(cacheFile, 'utf8'))).toEqual({
+      'https://ok.example/': { status: 200, checked: TODAY },
+    });
+  });
+});
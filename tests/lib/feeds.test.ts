@@ -0,0 +1,144 @@
+import { JSDOM } from 'jsdom';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { FeedScope } from '../../src/lib/feeds';
+import { fakeEntry, type FakeEntry } from '../helpers/entries';
+
+const SITE = new URL('https://skhattak.dev');
+
+const BODY =
+  '<p>See <a href="../other/">this</a> and <a href="#notes">notes</a>.</p>' +
+  '<img src="/_astro/plot.webp" srcset="/_astro/plot-480.webp 480w, /_astro/plot.webp 960w">' +
+  '<span class="katex"><math><mi>x</mi></math></span>' +
+  '<script>alert(1)</script><style>p { color: red }</style>';
+
+const entries: FakeEntry[] = [
+  fakeEntry('posts/newer', { date: new Date('2024-03-01'), tags: ['Rust', 'compilers'] }, BODY),
+  fakeEntry('posts/older', { date: new Date('2024-01-01'), subtitle: 'A & B' }, '<p>old</p>'),
+  fakeEntry('posts/draft', { tags: ['rust'], draft: true }),
+  fakeEntry('posts/unlisted', { tags: ['rust'], unlisted: true }),
+  fakeEntry('projects/tool', { date: new Date('2024-02-01'), tags: ['rust'] }),
+  fakeEntry('demos/undated', { date: undefined }),
+];
+
+vi.mock('astro:content', async () => {
+  const { fakeGetCollection } = await import('../helpers/entries');
+  return { getCollection: fakeGetCollection(() => entries) };
+});
+
+vi.mock('../../src/lib/renderEntry', () => ({
+  renderEntryHtml: async (entry: FakeEntry) => entry.html,
+}));
+
+let feeds: typeof import('../../src/lib/feeds');
+let scopes: FeedScope[];
+
+beforeAll(async () => {
+  feeds = await import('../../src/lib/feeds');
+  scopes = await feeds.getFeedScopes();
+});
+
+const scopeAt = (path: string | undefined) => scopes.find(scope => scope.path === path)!;
+const slugs = (scope: FeedScope) => scope.entries.map(entry => entry.id.split('/')[0]);
+
+async function render(format: 'rss' | 'atom' | 'json', path?: string) {
+  const response = await feeds.feedResponse(format, scopeAt(path), SITE);
+  return { response, body: await response.text() };
+}
+
+const { DOMParser } = new JSDOM().window;
+
+function parseXml(xml: string): Document {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(document.getElementsByTagName('parsererror')).toHaveLength(0);
+  return document;
+}
+
+describe('getFeedScopes', () => {
+  it('builds a site feed, one per collection and one per tag', () => {
+    expect(scopes.map(scope => scope.path)).toEqual([
+      undefined,
+      'posts',
+      'projects',
+      'demos',
+      'tags/rust',
+      'tags/compilers',
+    ]);
+    expect(scopeAt('tags/rust').title).toBe('Saif Khattak - #rust');
+  });
+
+  it('leaves out drafts and unlisted entries everywhere, newest first', () => {
+    expect(slugs(scopeAt(undefined))).toEqual(['newer', 'tool', 'older', 'undated']);
+    expect(slugs(scopeAt('posts'))).toEqual(['newer', 'older']);
+    expect(slugs(scopeAt('tags/rust'))).toEqual(['newer', 'tool']);
+  });
+});
+
+describe('feedResponse', () => {
+  it('renders well-formed RSS with absolute links and content', async () => {
+    const { response, body } = await render('rss', 'posts');
+    const document = parseXml(body);
+    const items = [...document.getElementsByTagName('item')];
+
+    expect(response.headers.get('Content-Type')).toBe('application/rss+xml; charset=utf-8');
+    expect(document.querySelector('channel > link')?.textContent).toBe(
+      'https://skhattak.dev/posts/',
+    );
+    expect(items.map(item => item.getElementsByTagName('link')[0].textContent)).toEqual([
+      'https://skhattak.dev/posts/newer/',
+      'https://skhattak.dev/posts/older/',
+    ]);
+    expect(items[1].getElementsByTagName('description')[0].textContent).toBe('A & B');
+    expect(items[0].getElementsByTagName('content:encoded')[0].textContent).toContain('katex');
+  });
+
+  it('renders well-formed Atom with a self link per scope', async () => {
+    const { response, body } = await render('atom', 'tags/rust');
+    const document = parseXml(body);
+
+    expect(response.headers.get('Content-Type')).toBe('application/atom+xml; charset=utf-8');
+    expect(document.querySelector('feed > link[rel="self"]')?.getAttribute('href')).toBe(
+      'https://skhattak.dev/tags/rust/atom.xml',
+    );
+    expect(document.querySelector('feed > updated')?.textContent).toBe(
+      '2024-03-01T00:00:00.000Z',
+    );
+    expect([...document.querySelectorAll('entry > id')].map(id => id.textContent)).toEqual([
+      'https://skhattak.dev/posts/newer/',
+      'https://skhattak.dev/projects/tool/',
+    ]);
+  });
+
+  it('renders a JSON Feed 1.1 document', async () => {
+    const { response, body } = await render('json');
+    const feed = JSON.parse(body);
+
+    expect(response.headers.get('Content-Type')).toBe('application/feed+json; charset=utf-8');
+    expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(feed.feed_url).toBe('https://skhattak.dev/feed.json');
+    expect(feed.items[0]).toMatchObject({
+      id: 'https://skhattak.dev/posts/newer/',
+      date_published: '2024-03-01T00:00:00.000Z',
+      tags: ['rust', 'compilers'],
+    });
+    expect(feed.items.at(-1).date_published).toBeUndefined();
+  });
+
+  it('makes every link and asset in the content absolute and drops scripts', async () => {
+    const { body } = await render('json');
+    const html: string = JSON.parse(body).items[0].content_html;
+
+    expect(html).toContain('href="https://skhattak.dev/posts/other/"');
+    expect(html).toContain('href="https://skhattak.dev/posts/newer/#notes"');
+    expect(html).toContain(
+      'srcset="https://skhattak.dev/_astro/plot-480.webp 480w, ' +
+        'https://skhattak.dev/_astro/plot.webp 960w"',
+    );
+    expect(html).not.toMatch(/<script|<style/);
+  });
+
+  it('needs a site to resolve URLs against', async () => {
+    await expect(feeds.feedResponse('rss', scopeAt(undefined), undefined)).rejects.toThrow(
+      'Set `site` in astro.config.mjs',
+    );
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { photoHash, photoIdFromHash } from '../../src/lib/flickr';
+
+describe('photoIdFromHash', () => {
+  it('round-trips ids through the location hash', () => {
+    expect(photoIdFromHash(photoHash('53 21/a'))).toBe('53 21/a');
+  });
+
+  it('ignores other hashes and malformed escapes', () => {
+    expect(photoIdFromHash('#top')).toBeNull();
+    expect(photoIdFromHash('#photo=')).toBeNull();
+    expect(photoIdFromHash('#photo=%E0%A4%A')).toBeNull();
+  });
+});
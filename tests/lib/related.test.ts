@@ -0,0 +1,91 @@
+import { readFileSync } from 'node:fs';
+import type { CollectionEntry } from 'astro:content';
+import { describe, expect, it, vi } from 'vitest';
+import type { ContentCollection } from '../../functions/_lib/types';
+import {
+  collectionsWithSlug,
+  entryDir,
+  findEntryFile,
+  parseEntry,
+} from '../../src/lib/entries';
+import { fakeEntry, type FakeEntry, type FakeEntryData } from '../helpers/entries';
+
+let entries: FakeEntry[] = [];
+
+const keyOf = (entry: FakeEntry) => `${entry.collection}/${entry.id.split('/')[0]}`;
+
+vi.mock('astro:content', async () => {
+  const { fakeGetCollection } = await import('../helpers/entries');
+  return { getCollection: fakeGetCollection(() => entries) };
+});
+
+vi.mock('../../src/lib/renderEntry', () => ({
+  renderEntryHtml: async (entry: FakeEntry) => entry.html,
+}));
+
+const SHARED_TEXT = '<p>Systolic arrays multiply matrices through pipelined accumulators.</p>';
+
+/** Rebuilds the index, since it is computed once per module instance. */
+async function relatedKeys(list: FakeEntry[], key: string) {
+  entries = list;
+  vi.resetModules();
+  const { getRelatedEntries } = await import('../../src/lib/related');
+  const entry = list.find(candidate => keyOf(candidate) === key)!;
+  const related = await getRelatedEntries(entry as unknown as CollectionEntry<ContentCollection>);
+  return related.map(candidate => candidate.key);
+}
+
+describe('getRelatedEntries', () => {
+  it('never recommends an entry to itself, even when it is the best match', async () => {
+    const list = [
+      fakeEntry('posts/systolic', { tags: ['hardware'] }, SHARED_TEXT),
+      fakeEntry('posts/systolic-again', { tags: ['hardware'] }, SHARED_TEXT),
+    ];
+
+    expect(await relatedKeys(list, 'posts/systolic')).toEqual(['posts/systolic-again']);
+  });
+
+  it('breaks score ties by title', async () => {
+    const list = [
+      fakeEntry('posts/source', { tags: ['hardware'] }, SHARED_TEXT),
+      fakeEntry('projects/zed', { title: 'Zed', tags: ['hardware'] }, SHARED_TEXT),
+      fakeEntry('demos/alpha', { title: 'Alpha', tags: ['hardware'] }, SHARED_TEXT),
+      fakeEntry('posts/mid', { title: 'Mid', tags: ['hardware'] }, SHARED_TEXT),
+    ];
+
+    expect(await relatedKeys(list, 'posts/source')).toEqual([
+      'demos/alpha',
+      'posts/mid',
+      'projects/zed',
+    ]);
+  });
+
+  it('puts pinned entries first and skips entries that are not listed', async () => {
+    const list = [
+      fakeEntry('posts/source', { tags: ['hardware'], related: ['projects/pinned'] }, SHARED_TEXT),
+      fakeEntry('posts/match', { tags: ['hardware'] }, SHARED_TEXT),
+      fakeEntry('posts/draft', { tags: ['hardware'], draft: true }, SHARED_TEXT),
+      fakeEntry('projects/pinned', { tags: ['birds'] }, '<p>Unrelated field notes.</p>'),
+    ];
+
+    expect(await relatedKeys(list, 'posts/source')).toEqual(['projects/pinned', 'posts/match']);
+  });
+
+  it('points the PSP post at the RV32I core and the im2col demo', async () => {
+    // Real entries, with their markdown standing in for rendered HTML.
+    const slugs = ['psp-neural-networks', 'rv32i-core', 'im2col', 'chip8-emulator'];
+    const list = slugs.flatMap(slug =>
+      collectionsWithSlug(slug).map(collection => {
+        const file = findEntryFile(entryDir(collection, slug))!;
+        const { data, body } = parseEntry(readFileSync(file, 'utf8'));
+        return fakeEntry(`${collection}/${slug}`, data as FakeEntryData, body);
+      }),
+    );
+    expect(list).toHaveLength(slugs.length);
+
+    expect((await relatedKeys(list, 'posts/psp-neural-networks')).slice(0, 2)).toEqual([
+      'projects/rv32i-core',
+      'demos/im2col',
+    ]);
+  });
+});
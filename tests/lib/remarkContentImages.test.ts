@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import remarkContentImages from '../../src/lib/remarkContentImages';
+
+type Value = string | null | { type: 'mdxJsxAttributeValueExpression'; value: string };
+
+const attribute = (name: string, value: Value) => ({ type: 'mdxJsxAttribute', name, value });
+
+const img = (attributes: object[], type = 'mdxJsxFlowElement') => ({
+  type,
+  name: 'img',
+  attributes,
+  children: [],
+});
+
+interface TestNode {
+  type: string;
+  children?: TestNode[];
+  [key: string]: unknown;
+}
+
+function transform(children: TestNode[]): TestNode[] {
+  const tree = { type: 'root', children };
+  remarkContentImages()(tree as never);
+  return tree.children;
+}
+
+describe('remarkContentImages', () => {
+  it('turns a local <img> into an image node with its alt, title, style and class', () => {
+    const [image] = transform([
+      img([
+        attribute('src', './plot.png'),
+        attribute('alt', 'Frequency response'),
+        attribute('title', 'Bode plot'),
+        attribute('style', 'width: 40%'),
+        attribute('class', 'bordered'),
+        attribute('loading', 'eager'),
+      ]),
+    ]);
+
+    expect(image).toEqual({
+      type: 'image',
+      url: './plot.png',
+      alt: 'Frequency response',
+      title: 'Bode plot',
+      data: { hProperties: { style: 'width: 40%', class: 'bordered' } },
+    });
+  });
+
+  it('converts inline tags nested inside other nodes', () => {
+    const paragraph = {
+      type: 'paragraph',
+      children: [img([attribute('src', 'figures/a.jpg')], 'mdxJsxTextElement')],
+    };
+
+    const [result] = transform([paragraph]);
+
+    expect(result.children?.[0]).toMatchObject({ type: 'image', url: 'figures/a.jpg', alt: '' });
+  });
+
+  it('leaves remote, root-relative and dynamic sources alone', () => {
+    const untouched = [
+      img([attribute('src', 'https://example.com/a.png')]),
+      img([attribute('src', '/insight.png')]),
+      img([attribute('src', 'data:image/png;base64,AAAA')]),
+      img([attribute('src', { type: 'mdxJsxAttributeValueExpression', value: 'plot' })]),
+      img([attribute('src', './a.png'), { type: 'mdxJsxExpressionAttribute', value: '{...rest}' }]),
+      img([attribute('alt', 'no source')]),
+    ];
+
+    expect(transform(untouched.map(node => ({ ...node })))).toEqual(untouched);
+  });
+});
@@ -0,0 +1,41 @@
+import type { CollectionEntry } from 'astro:content';
+import { describe, expect, it, vi } from 'vitest';
+import type { ContentCollection } from '../../functions/_lib/types';
+import { fakeEntry, type FakeEntry } from '../helpers/entries';
+
+const render = vi.fn(async (entry: FakeEntry) => ({ Content: entry.html }));
+const renderToString = vi.fn(async (Content: string) => `<article>${Content}</article>`);
+const create = vi.fn(async () => ({
+  addServerRenderer: () => undefined,
+  addClientRenderer: () => undefined,
+  renderToString,
+}));
+
+vi.mock('astro:content', () => ({ render }));
+vi.mock('astro/container', () => ({ experimental_AstroContainer: { create } }));
+vi.mock('@astrojs/mdx/server.js', () => ({ default: {} }));
+vi.mock('@astrojs/react/server.js', () => ({ default: {} }));
+
+const asEntry = (entry: FakeEntry) => entry as unknown as CollectionEntry<ContentCollection>;
+
+describe('renderEntryHtml', () => {
+  it('renders each entry once through a single shared container', async () => {
+    const { renderEntryHtml } = await import('../../src/lib/renderEntry');
+    const first = asEntry(fakeEntry('posts/first', {}, '<p>one</p>'));
+    const second = asEntry(fakeEntry('projects/first', {}, '<p>two</p>'));
+
+    const html = await Promise.all([
+      renderEntryHtml(first),
+      renderEntryHtml(second),
+      renderEntryHtml(first),
+    ]);
+
+    expect(html).toEqual([
+      '<article><p>one</p></article>',
+      '<article><p>two</p></article>',
+      '<article><p>one</p></article>',
+    ]);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(render).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { shardKeyOf, tokenizeSearchText } from '../../src/lib/search';
+import { fakeEntry, type FakeEntry } from '../helpers/entries';
+
+let entries: FakeEntry[] = [];
+
+vi.mock('astro:content', async () => {
+  const { fakeGetCollection } = await import('../helpers/entries');
+  return { getCollection: fakeGetCollection(() => entries) };
+});
+
+vi.mock('../../src/lib/renderEntry', () => ({
+  renderEntryHtml: async (entry: FakeEntry) => entry.html,
+}));
+
+const ENTRIES = [
+  fakeEntry(
+    'posts/rv32i-pipeline',
+    { title: 'A RISC-V pipeline' },
+    '<p>Hazards and forwarding.</p><h2 id="stalls">Stalls</h2><p>Load-use stalls.</p>',
+  ),
+  fakeEntry('projects/zeta', { title: 'Zeta' }, '<p>Pipeline diagrams, 3 stages.</p>'),
+  fakeEntry('demos/alpha', { title: 'Alpha' }, '<p>Café <code>x</code></p><pre>let y = 1;</pre>'),
+];
+
+/** Builds the index fresh, since `getSearchIndex` memoizes per module instance. */
+async function buildIndex(list: FakeEntry[]) {
+  entries = list;
+  vi.resetModules();
+  const { getSearchIndex } = await import('../../src/lib/searchIndex');
+  return getSearchIndex();
+}
+
+describe('tokenizeSearchText', () => {
+  it('lowercases, strips accents and splits on anything but letters and digits', () => {
+    expect(tokenizeSearchText('Café-Übersicht: RISC-V (rv32i)')).toEqual([
+      'cafe',
+      'ubersicht',
+      'risc',
+      'rv32i',
+    ]);
+  });
+
+  it('drops single letters but keeps single digits', () => {
+    expect(tokenizeSearchText('a C++ x 3 stage')).toEqual(['3', 'stage']);
+  });
+});
+
+describe('search index', () => {
+  it('files every term under the shard the browser will look in', async () => {
+    const { manifest, shards } = await buildIndex(ENTRIES);
+
+    expect(manifest.shards).toEqual([...shards.keys()].sort());
+    for (const [key, shard] of shards) {
+      for (const term of Object.keys(shard)) expect(shardKeyOf(term)).toBe(key);
+    }
+    expect(shards.get('0')).toHaveProperty('3');
+    expect(shards.get('c')).toHaveProperty('cafe');
+  });
+
+  it('assigns the same documents and shards whatever order entries arrive in', async () => {
+    const first = await buildIndex(ENTRIES);
+    const second = await buildIndex([...ENTRIES].reverse());
+
+    expect(second.manifest).toEqual(first.manifest);
+    expect(Object.fromEntries(second.shards)).toEqual(Object.fromEntries(first.shards));
+    expect(first.manifest.documents.map(document => [document.url, document.anchor])).toEqual([
+      ['/demos/alpha/', null],
+      ['/posts/rv32i-pipeline/', null],
+      ['/posts/rv32i-pipeline/', 'stalls'],
+      ['/projects/zeta/', null],
+    ]);
+  });
+
+  it('indexes terms that are Object.prototype members', async () => {
+    const { shards } = await buildIndex([
+      fakeEntry('posts/js', { title: 'Prototypes' }, '<p>Call constructor and toString.</p>'),
+    ]);
+
+    expect(shards.get('c')!.constructor).toEqual([[0, expect.any(Number)]]);
+    expect(shards.get('t')!.tostring).toEqual([[0, expect.any(Number)]]);
+    expect(JSON.parse(JSON.stringify(shards.get('c')))).toHaveProperty('constructor');
+  });
+
+  it('ranks title matches above body matches', async () => {
+    const { manifest, shards } = await buildIndex(ENTRIES);
+    const [best] = shards.get('p')!.pipeline;
+
+    expect(manifest.documents[best[0]].title).toBe('A RISC-V pipeline');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getAllSeries } from '../../src/lib/series';
+import { fakeEntry, type FakeEntry } from '../helpers/entries';
+
+let entries: FakeEntry[] = [];
+
+vi.mock('astro:content', async () => {
+  const { fakeGetCollection } = await import('../helpers/entries');
+  return { getCollection: fakeGetCollection(() => entries) };
+});
+
+const part = (slug: string, order: number, data: Parameters<typeof fakeEntry>[1] = {}) =>
+  fakeEntry(`posts/${slug}`, { series: { id: 'psp-ml', order }, ...data });
+
+describe('getAllSeries', () => {
+  it('numbers parts across drafts but only lists published ones', async () => {
+    entries = [
+      part('part-three', 3),
+      part('part-one', 1),
+      part('part-two', 2, { draft: true }),
+      part('part-four', 4, { date: new Date('2999-01-01') }),
+    ];
+
+    const [series] = await getAllSeries();
+
+    expect(series.parts.map(({ slug, order }) => [slug, order])).toEqual([
+      ['part-one', 1],
+      ['part-three', 3],
+    ]);
+  });
+
+  it('rejects gaps and repeats even when the offending part is a draft', async () => {
+    entries = [part('part-one', 1), part('part-three', 3, { draft: true })];
+    await expect(getAllSeries()).rejects.toThrow('numbered 1 to 2 without gaps');
+
+    entries = [part('part-one', 1), part('again', 1, { draft: true })];
+    await expect(getAllSeries()).rejects.toThrow('both have order 1');
+  });
+
+  it('leaves out series with no published parts', async () => {
+    entries = [part('part-one', 1, { draft: true })];
+
+    expect(await getAllSeries()).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SitemapUrl } from '../../src/lib/sitemap';
+import { fakeEntry, type FakeEntry } from '../helpers/entries';
+
+const SITE = new URL('https://skhattak.dev');
+
+const entries: FakeEntry[] = [
+  fakeEntry('posts/part-one', {
+    date: new Date('2024-01-01'),
+    tags: ['Rust'],
+    series: { id: 'psp-ml', order: 1 },
+  }),
+  fakeEntry('posts/part-two', {
+    date: new Date('2024-02-01'),
+    updated: new Date('2024-05-01'),
+    series: { id: 'psp-ml', order: 2 },
+  }),
+  fakeEntry('posts/draft', { tags: ['drafts-only'], draft: true }),
+  fakeEntry('posts/unlisted', { tags: ['rust'], unlisted: true }),
+  fakeEntry('projects/tool', { date: new Date('2024-03-01'), tags: ['rust'] }),
+];
+
+vi.mock('astro:content', async () => {
+  const { fakeGetCollection } = await import('../helpers/entries');
+  return { getCollection: fakeGetCollection(() => entries) };
+});
+
+let sitemap: typeof import('../../src/lib/sitemap');
+let urls: SitemapUrl[];
+
+beforeAll(async () => {
+  sitemap = await import('../../src/lib/sitemap');
+  urls = await sitemap.getSitemapUrls();
+});
+
+const lastmodOf = (path: string) =>
+  urls.find(url => url.path === path)?.lastmod?.toISOString().slice(0, 10);
+
+describe('getSitemapUrls', () => {
+  it('lists published entries, their listings, tags and series', () => {
+    expect(urls.map(url => url.path)).toEqual([
+      '/',
+      '/media/',
+      '/posts/',
+      '/projects/',
+      '/demos/',
+      '/posts/part-one/',
+      '/posts/part-two/',
+      '/projects/tool/',
+      '/tags/',
+      '/tags/rust/',
+      '/series/psp-ml/',
+    ]);
+  });
+
+  it('keeps drafts and unlisted entries and their tags out', () => {
+    const paths = urls.map(url => url.path).join('\n');
+
+    expect(paths).not.toMatch(/draft|unlisted/);
+  });
+
+  it('dates listings by the newest entry they show', () => {
+    expect(lastmodOf('/posts/part-two/')).toBe('2024-05-01');
+    expect(lastmodOf('/posts/')).toBe('2024-05-01');
+    expect(lastmodOf('/projects/')).toBe('2024-03-01');
+    expect(lastmodOf('/tags/rust/')).toBe('2024-03-01');
+    expect(lastmodOf('/series/psp-ml/')).toBe('2024-05-01');
+    expect(lastmodOf('/demos/')).toBeUndefined();
+  });
+});
+
+describe('renderSitemap', () => {
+  it('writes absolute locations and day-precision dates', () => {
+    const xml = sitemap.renderSitemap(
+      [
+        { path: '/posts/a&b/', lastmod: new Date('2024-05-01T18:00:00Z') },
+        { path: '/media/', lastmod: null },
+      ],
+      SITE,
+    );
+
+    expect(xml).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        '  <url>',
+        '    <loc>https://skhattak.dev/posts/a&amp;b/</loc>',
+        '    <lastmod>2024-05-01</lastmod>',
+        '  </url>',
+        '  <url>',
+        '    <loc>https://skhattak.dev/media/</loc>',
+        '  </url>',
+        '</urlset>',
+        '',
+      ].join('\n'),
+    );
+  });
+});
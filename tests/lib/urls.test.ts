@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalUrl, entryKey, entrySlug, entryUrl, tagUrl } from '../../src/lib/urls';
+
+const SITE = new URL('https://skhattak.dev');
+
+describe('urls', () => {
+  it('builds entry URLs from folder and flat-file ids alike', () => {
+    expect(entryUrl({ id: 'psp-neural-networks/index', collection: 'posts' })).toBe(
+      '/posts/psp-neural-networks/',
+    );
+    expect(entryUrl({ id: 'hexgrid', collection: 'demos' })).toBe('/demos/hexgrid/');
+    expect(entrySlug({ id: 'hexgrid' })).toBe('hexgrid');
+    expect(entryKey({ id: 'tool/index', collection: 'projects' })).toBe('projects/tool');
+  });
+
+  it('builds tag URLs with a trailing slash', () => {
+    expect(tagUrl('compilers')).toBe('/tags/compilers/');
+  });
+
+  it('gives every spelling of a page the same canonical URL', () => {
+    const canonical = 'https://skhattak.dev/posts/psp-neural-networks/';
+
+    expect(canonicalUrl('/posts/psp-neural-networks', SITE)).toBe(canonical);
+    expect(canonicalUrl('/posts/psp-neural-networks/', SITE)).toBe(canonical);
+    expect(canonicalUrl('/', SITE)).toBe('https://skhattak.dev/');
+  });
+
+  it('leaves file paths without a trailing slash', () => {
+    expect(canonicalUrl('/rss.xml', SITE)).toBe('https://skhattak.dev/rss.xml');
+    expect(canonicalUrl('/tags/rust/feed.json', SITE)).toBe(
+      'https://skhattak.dev/tags/rust/feed.json',
+    );
+  });
+});
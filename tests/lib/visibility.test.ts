@@ -0,0 +1,90 @@
+import type { CollectionEntry } from 'astro:content';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ContentCollection } from '../../functions/_lib/types';
+import { fakeEntry, type FakeEntry } from '../helpers/entries';
+
+type AnyEntry = CollectionEntry<ContentCollection>;
+
+const entries: FakeEntry[] = [
+  fakeEntry('posts/published'),
+  fakeEntry('posts/draft', { draft: true }),
+  fakeEntry('posts/scheduled', { date: new Date('2999-01-01') }),
+  fakeEntry('posts/unlisted', { unlisted: true }),
+  fakeEntry('posts/scheduled-draft', { date: new Date('2999-01-01'), draft: true }),
+  fakeEntry('projects/undated', { date: undefined }),
+];
+
+vi.mock('astro:content', async () => {
+  const { fakeGetCollection } = await import('../helpers/entries');
+  return { getCollection: fakeGetCollection(() => entries) };
+});
+
+const asEntry = (entry: FakeEntry) => entry as unknown as AnyEntry;
+const slugs = (list: { id: string }[]) => list.map(entry => entry.id.split('/')[0]);
+
+/** Loads `visibility.ts` fresh, since preview mode is read once at import. */
+async function loadVisibility({ dev = false, previewDrafts = '' } = {}) {
+  vi.resetModules();
+  vi.stubEnv('DEV', dev);
+  vi.stubEnv('PREVIEW_DRAFTS', previewDrafts);
+  return import('../../src/lib/visibility');
+}
+
+describe('visibility', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('classifies drafts, scheduled, unlisted and published entries', async () => {
+    const { entryVisibility } = await loadVisibility();
+    const now = new Date('2025-06-01');
+
+    expect(entries.map(entry => entryVisibility(asEntry(entry), now))).toEqual([
+      'published',
+      'draft',
+      'scheduled',
+      'unlisted',
+      'draft',
+      'published',
+    ]);
+  });
+
+  it('publishes a scheduled entry once a build runs after its date', async () => {
+    const { entryVisibility } = await loadVisibility();
+    const entry = asEntry(fakeEntry('posts/launch', { date: new Date('2025-06-01T12:00:00Z') }));
+
+    expect(entryVisibility(entry, new Date('2025-06-01T11:59:59Z'))).toBe('scheduled');
+    expect(entryVisibility(entry, new Date('2025-06-01T12:00:01Z'))).toBe('published');
+  });
+
+  it('routes unlisted entries but not drafts or scheduled ones in production', async () => {
+    const { getListedEntries, getRoutableEntries } = await loadVisibility();
+
+    expect(slugs(await getRoutableEntries('posts'))).toEqual(['published', 'unlisted']);
+    expect(slugs(await getListedEntries('posts'))).toEqual(['published']);
+    expect(slugs(await getListedEntries('projects'))).toEqual(['undated']);
+  });
+
+  it('routes drafts and scheduled entries in preview builds without listing them', async () => {
+    const { PREVIEW_MODE, getListedEntries, getRoutableEntries } = await loadVisibility({
+      previewDrafts: '1',
+    });
+
+    expect(PREVIEW_MODE).toBe(true);
+    expect(slugs(await getRoutableEntries('posts'))).toEqual([
+      'published',
+      'draft',
+      'scheduled',
+      'unlisted',
+      'scheduled-draft',
+    ]);
+    expect(slugs(await getListedEntries('posts'))).toEqual(['published']);
+  });
+
+  it('always previews under the dev server', async () => {
+    const { PREVIEW_MODE, isRoutable } = await loadVisibility({ dev: true });
+
+    expect(PREVIEW_MODE).toBe(true);
+    expect(isRoutable(asEntry(entries[1]))).toBe(true);
+  });
+});
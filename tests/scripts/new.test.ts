@@ -0,0 +1,111 @@
+import { spawnSync } from 'node:child_process';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { SITE_ROOT, entryDir, parseEntry } from '../../src/lib/entries';
+
+const SLUG = 'scaffold-test-entry';
+const COMPONENT = 'ScaffoldTestWidget';
+const COMPONENT_FILE = join(SITE_ROOT, 'src/components/post', `${COMPONENT}.tsx`);
+
+/** Runs the scaffolder without a terminal, so it never prompts. */
+function scaffold(...args: string[]) {
+  const result = spawnSync(process.execPath, ['--import', 'tsx', 'scripts/new.ts', ...args], {
+    cwd: SITE_ROOT,
+    encoding: 'utf8',
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+const readEntry = (collection: 'posts' | 'demos') =>
+  readFileSync(join(entryDir(collection, SLUG), 'index.mdx'), 'utf8');
+
+describe('new', () => {
+  afterEach(() => {
+    rmSync(entryDir('posts', SLUG), { recursive: true, force: true });
+    rmSync(entryDir('demos', SLUG), { recursive: true, force: true });
+    rmSync(COMPONENT_FILE, { force: true });
+  });
+
+  it('scaffolds a draft post with valid frontmatter', () => {
+    const { status, stdout } = scaffold(
+      'post',
+      SLUG,
+      '--title',
+      'Scaffolding: a test',
+      '--tags',
+      'Rust, wasm',
+      '--interactive',
+    );
+
+    expect(status).toBe(0);
+    expect(stdout).toContain(`Created src/content/posts/${SLUG}/`);
+    expect(parseEntry(readEntry('posts')).data).toMatchObject({
+      title: 'Scaffolding: a test',
+      tags: ['rust', 'wasm'],
+      interactive: { toc: true, collapsiblePhases: false },
+      draft: true,
+    });
+  });
+
+  it('adds a starter component next to the entry and renders it', () => {
+    const { status } = scaffold('demo', SLUG, '--title', 'Demo', '--component', COMPONENT);
+    const { body } = parseEntry(readEntry('demos'));
+
+    expect(status).toBe(0);
+    expect(existsSync(join(entryDir('demos', SLUG), `${COMPONENT}.tsx`))).toBe(true);
+    expect(body).toContain(`import ${COMPONENT} from './${COMPONENT}.tsx';`);
+    expect(body).toContain(`<${COMPONENT} client:visible />`);
+  });
+
+  it('refuses an existing slug and warns when another collection uses it', () => {
+    expect(scaffold('post', SLUG, '--title', 'First').status).toBe(0);
+
+    const again = scaffold('post', SLUG, '--title', 'Again');
+    expect(again.status).toBe(1);
+    expect(again.stderr).toContain(`src/content/posts/${SLUG} already exists`);
+
+    const demo = scaffold('demo', SLUG, '--title', 'Same slug');
+    expect(demo.status).toBe(0);
+    expect(demo.stderr).toContain(`warning: posts/${SLUG} already exists`);
+  });
+
+  it('creates a shared component and wires it into an MDX entry', () => {
+    scaffold('post', SLUG, '--title', 'Host');
+
+    const { status, stdout } = scaffold('component', COMPONENT, '--entry', `posts/${SLUG}`);
+    const { body } = parseEntry(readEntry('posts'));
+
+    expect(status).toBe(0);
+    expect(stdout).toContain(`Wired <${COMPONENT} client:visible /> into`);
+    expect(existsSync(COMPONENT_FILE)).toBe(true);
+    expect(body).toContain(
+      `import ${COMPONENT} from '../../../components/post/${COMPONENT}.tsx';`,
+    );
+    expect(body.trimEnd().endsWith(`<${COMPONENT} client:visible />`)).toBe(true);
+  });
+
+  it('checks the entry before writing the component', () => {
+    const markdown = join(SITE_ROOT, 'src/content/posts/kentucky-route-zero-xanadu/index.md');
+    const before = readFileSync(markdown, 'utf8');
+
+    const plain = scaffold('component', COMPONENT, '--entry', 'posts/kentucky-route-zero-xanadu');
+    expect(plain.status).toBe(1);
+    expect(plain.stderr).toContain('is plain Markdown');
+    expect(readFileSync(markdown, 'utf8')).toBe(before);
+
+    const missing = scaffold('component', COMPONENT, '--entry', `posts/${SLUG}`);
+    expect(missing.status).toBe(1);
+    expect(missing.stderr).toContain(`posts/${SLUG} has no index.mdx or index.md`);
+
+    scaffold('post', SLUG, '--title', 'Host');
+    const host = join(entryDir('posts', SLUG), 'index.mdx');
+    const importLine = `import ${COMPONENT} from '../../../components/post/${COMPONENT}.tsx';`;
+    writeFileSync(host, `${readFileSync(host, 'utf8')}\n${importLine}\n`);
+    const imported = scaffold('component', COMPONENT, '--entry', `posts/${SLUG}`);
+    expect(imported.status).toBe(1);
+    expect(imported.stderr).toContain(`${COMPONENT} is already imported`);
+
+    expect(existsSync(COMPONENT_FILE)).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import { compile } from '@mdx-js/mdx';
+import remarkMath from 'remark-math';
+import { describe, expect, it } from 'vitest';
+import {
+  convertNotebook,
+  htmlTableToMarkdown,
+  markdownToMdx,
+  type Notebook,
+} from '../../scripts/_lib/notebook';
+import { readFixture } from '../helpers/pages';
+
+const notebook = JSON.parse(readFixture('notebook.ipynb')) as Notebook;
+
+const compileMdx = (mdx: string) => compile(mdx, { remarkPlugins: [remarkMath] });
+
+const INTRO = [
+  'The set \\{x | x &lt; 1\\} keeps `a < {b}` and $a<b$ as written.<br />',
+  '{/* tune the cutoff later */}',
+  '',
+  '![Response](./attachment-2-response.png)',
+].join('\n');
+
+const FIRST_CELL = [
+  '```python',
+  '# Design the filter',
+  'import numpy as np',
+  "print('taps', 31)",
+  '```',
+  '',
+  '```text',
+  'taps 31',
+  '```',
+  '',
+  '![Output of cell 1](./output-1-3.png)',
+  '',
+  '```text',
+  'array([1, 2])',
+  '```',
+].join('\n');
+
+const ERROR_CELL = [
+  '```python',
+  '1 / 0',
+  '```',
+  '',
+  '```text',
+  'ZeroDivisionError: division by zero',
+  '```',
+].join('\n');
+
+const OUTPUT_ONLY_CELL = ['```text', 'ready', '```'].join('\n');
+
+describe('convertNotebook', () => {
+  it('writes markdown, code and outputs as static MDX', () => {
+    const converted = convertNotebook(notebook, { groupCode: false });
+
+    expect(converted.title).toBe('Filter design');
+    expect(converted.usesCodeTabs).toBe(false);
+    expect(converted.body).toBe([INTRO, FIRST_CELL, ERROR_CELL, OUTPUT_ONLY_CELL].join('\n\n'));
+  });
+
+  it('extracts attachments and image outputs as sibling files', () => {
+    const { assets } = convertNotebook(notebook, { groupCode: false });
+
+    expect(assets.map(asset => asset.path)).toEqual([
+      'attachment-2-response.png',
+      'output-1-3.png',
+    ]);
+    for (const asset of assets) {
+      expect(asset.data).toEqual(Buffer.from('iVBORw0KGgo=', 'base64'));
+    }
+  });
+
+  it('groups consecutive code cells into CodeTabs', () => {
+    const converted = convertNotebook(notebook, { groupCode: true });
+    const panel = (id: string, body: string) => `  <div slot="${id}">\n\n${body}\n\n  </div>`;
+
+    expect(converted.usesCodeTabs).toBe(true);
+    expect(converted.body).toBe(
+      [
+        INTRO,
+        '',
+        '<CodeTabs tabs={[' +
+          `{ id: 'cell-1-1', label: "Design the filter" }, ` +
+          `{ id: 'cell-1-2', label: "Cell 2" }, ` +
+          `{ id: 'cell-1-3', label: "Cell 3" }` +
+          ']} label="Notebook cells">',
+        panel('cell-1-1', FIRST_CELL),
+        panel('cell-1-2', ERROR_CELL),
+        panel('cell-1-3', OUTPUT_ONLY_CELL),
+        '</CodeTabs>',
+      ].join('\n'),
+    );
+  });
+
+  it('produces MDX that compiles, with and without CodeTabs', async () => {
+    for (const groupCode of [false, true]) {
+      await expect(compileMdx(convertNotebook(notebook, { groupCode }).body)).resolves.toBeDefined();
+    }
+  });
+
+  it('rejects notebooks older than nbformat 4', () => {
+    expect(() => convertNotebook({ ...notebook, nbformat: 3 }, { groupCode: false })).toThrow(
+      'unsupported nbformat 3',
+    );
+  });
+});
+
+describe('markdownToMdx', () => {
+  it('leaves fenced code alone', () => {
+    const markdown = '```js\nconst o = { a: 1 } < 2;\n```';
+    expect(markdownToMdx(markdown)).toBe(markdown);
+  });
+
+  it('turns one-line display math and bare environments into math blocks', () => {
+    expect(markdownToMdx('$$x^{2}$$')).toBe('$$\nx^{2}\n$$');
+    expect(markdownToMdx('\\begin{align}a &= b\\end{align}')).toBe(
+      '\n$$\n\\begin{align}a &= b\\end{align}\n$$\n',
+    );
+  });
+
+  it('keeps inline HTML and backslash escapes', () => {
+    expect(markdownToMdx('<img src="a.png"> and \\{ literal')).toBe(
+      '<img src="a.png" /> and \\{ literal',
+    );
+  });
+
+  it('rewrites autolinks as markdown links', () => {
+    expect(markdownToMdx('See <https://numpy.org/doc/> or <me@example.com>.')).toBe(
+      'See [https://numpy.org/doc/](https://numpy.org/doc/) or ' +
+        '[me@example.com](mailto:me@example.com).',
+    );
+  });
+
+  it('quotes unquoted attribute values', () => {
+    expect(markdownToMdx('<img src="x.png" width=300>')).toBe('<img src="x.png" width="300" />');
+    expect(markdownToMdx("<p align=center class='note' hidden>x</p>")).toBe(
+      '<p align="center" class=\'note\' hidden>x</p>',
+    );
+  });
+
+  it('escapes tags MDX cannot parse', () => {
+    expect(markdownToMdx('a <b =c> d')).toBe('a &lt;b =c> d');
+  });
+
+  it('produces MDX that compiles for autolinks and loose HTML', async () => {
+    const markdown = [
+      'Docs: <https://numpy.org/doc/>, mail <me@example.com>.',
+      '',
+      '<img src="x.png" width=300>',
+      '',
+      "<p align=center class='note' hidden>Centered</p>",
+      '',
+      'Broken <b =c> tag and $a<b$ math.',
+    ].join('\n');
+    await expect(compileMdx(markdownToMdx(markdown))).resolves.toBeDefined();
+  });
+});
+
+describe('htmlTableToMarkdown', () => {
+  it('converts a pandas table, escaping pipes and braces', () => {
+    const html =
+      '<div><table><thead><tr><th></th><th>gain</th></tr></thead>' +
+      '<tbody><tr><th>0</th><td>a|b {c}</td></tr><tr><td>1</td></tr></tbody></table></div>';
+
+    expect(htmlTableToMarkdown(html)).toBe(
+      ['|  | gain |', '| --- | --- |', '| 0 | a\\|b \\{c\\} |', '| 1 |  |'].join('\n'),
+    );
+  });
+
+  it('returns null without a table', () => {
+    expect(htmlTableToMarkdown('<p>no table</p>')).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { SITE_ROOT } from '../../src/lib/entries';
+
+const SLUG = 'publish-test-entry';
+
+let sourceDir: string;
+
+/** Writes an entry directory to a temp folder. */
+function writeSource(files: Record<string, string>): string {
+  sourceDir = mkdtempSync(join(tmpdir(), 'publish-test-'));
+  for (const [name, contents] of Object.entries(files)) {
+    writeFileSync(join(sourceDir, name), contents);
+  }
+  return sourceDir;
+}
+
+function publish(...args: string[]) {
+  const result = spawnSync(process.execPath, ['--import', 'tsx', 'scripts/publish.ts', ...args], {
+    cwd: SITE_ROOT,
+    encoding: 'utf8',
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+function entry(frontmatter: string[], body: string[] = []): string {
+  return ['---', ...frontmatter, '---', '', ...body, ''].join('\n');
+}
+
+const VALID = entry(
+  ['title: Publishing', 'date: 2024-05-01', 'related:', '  - posts/psp-neural-networks'],
+  [
+    "import CodeTabs from '../../../components/post/CodeTabs.astro';",
+    '',
+    '![Plot](./plot.png)',
+    '',
+    '```mdx',
+    '![Not checked](./inside-a-fence.png)',
+    '```',
+  ],
+);
+
+describe('publish', () => {
+  afterEach(() => {
+    rmSync(sourceDir, { recursive: true, force: true });
+  });
+
+  it('accepts a valid entry and leaves the site alone on a dry run', () => {
+    const source = writeSource({ 'index.mdx': VALID, 'plot.png': 'png' });
+
+    const { status, stdout, stderr } = publish(source, SLUG, '--dry-run');
+
+    expect(stderr).toBe('');
+    expect(status).toBe(0);
+    expect(stdout).toContain(`Dry run: src/content/posts/${SLUG} was not changed.`);
+    expect(existsSync(join(SITE_ROOT, 'src/content/posts', SLUG))).toBe(false);
+  });
+
+  it('prints the files a dry run would add', () => {
+    const source = writeSource({ 'index.mdx': VALID, 'plot.png': 'png' });
+
+    const { stdout } = publish(source, SLUG, '--dry-run');
+
+    expect(stdout).toMatch(/index\.mdx\}?\s+\|\s+\d+ \+/);
+    expect(stdout).toMatch(/plot\.png\}?\s+\|/);
+    expect(stdout).toContain('+title: Publishing');
+  });
+
+  it('rejects an entry that is missing a required field', () => {
+    const source = writeSource({ 'index.mdx': entry(['title: No date']) });
+
+    const { status, stdout, stderr } = publish(source, SLUG, '--dry-run');
+
+    expect(status).toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toContain("can't be published:");
+    expect(stderr).toContain('  - frontmatter date: ');
+  });
+
+  it('rejects references that do not resolve or are not valid paths', () => {
+    const source = writeSource({
+      'index.mdx': entry(
+        ['title: Broken', 'date: 2024-05-01', 'related:', '  - posts/does-not-exist'],
+        [
+          "import Chart from './Chart';",
+          '',
+          '![Plot](./missing.png)',
+          '',
+          '![Bad](./%E0%A4%A.png)',
+        ],
+      ),
+    });
+
+    const { status, stderr } = publish(source, SLUG, '--dry-run');
+
+    expect(status).toBe(1);
+    expect(stderr.split('\n').filter(line => line.startsWith('  - '))).toEqual([
+      '  - frontmatter related: "posts/does-not-exist" is not an existing <collection>/<slug>',
+      '  - import "./Chart" does not resolve',
+      '  - image "./missing.png" does not resolve',
+      '  - image "./%E0%A4%A.png" is not a valid path',
+    ]);
+  });
+});
@@ -0,0 +1,6 @@
+import { defineConfig } from 'vitest/config';
+
+// tsconfig keeps `jsx: preserve` for Astro; component tests need React's runtime.
+export default defineConfig({
+  esbuild: { jsx: 'automatic' },
+});